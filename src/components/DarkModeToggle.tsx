@@ -1,105 +1,318 @@
 "use client";
 
 import React from "react";
-import { Moon, Sun } from "lucide-react"; // Peer dependency
-import { useTheme } from "next-themes"; // Peer dependency
+import { Monitor, Moon, Sun } from "lucide-react"; // Peer dependency
 import { motion, AnimatePresence } from "framer-motion"; // Peer dependency
+import clsx from "clsx"; // Direct dependency (bundled)
 import {
   Tooltip,
   TooltipContent,
   TooltipProvider, // Note: Prefer global TooltipProvider in consuming app
   TooltipTrigger,
 } from "@radix-ui/react-tooltip"; // Direct dependency (bundled)
+import { useHasThemeAdapter, useThemeState, type ThemePreference } from "./ThemeProvider";
+import { warnMissingThemeAdapter } from "../utils/themeStore";
+import { EnsureNavBarTheme } from "./NavBarTheme";
+import { useShouldReduceMotion } from "./ReducedMotionProvider";
+import { useLocale } from "./LocaleProvider";
 
 /**
- * A toggle button for switching between light and dark color themes.
- * Relies on `next-themes` for theme management and context.
+ * Props for the DarkModeToggle component.
+ */
+export interface DarkModeToggleProps {
+  /**
+   * How the control behaves:
+   * - `"toggle"`: a single button flipping between light and dark.
+   * - `"cycle"`: a single button cycling light → dark → system.
+   * - `"segmented"`: a compact light / dark / system segmented control.
+   * @default "toggle"
+   */
+  mode?: "toggle" | "cycle" | "segmented";
+  /**
+   * Controlled theme preference. When provided, the control displays this value and the
+   * active theme follows it; report changes back through `onChange`.
+   */
+  value?: ThemePreference;
+  /** Called with the newly selected preference, e.g. to sync it to a user profile. */
+  onChange?: (theme: ThemePreference) => void;
+  /** Optional CSS class(es) to apply to the button (or segmented control container). */
+  className?: string;
+}
+
+/** Order used by the `"cycle"` mode and the segmented control. */
+const THEME_ORDER: ThemePreference[] = ["light", "dark", "system"];
+
+/** Icon, color, entry/exit rotation and the label naming each preference. */
+const THEME_ICONS: Record<
+  ThemePreference,
+  {
+    Icon: React.ElementType;
+    className: string;
+    rotate: number;
+    label: "lightTheme" | "darkTheme" | "systemTheme";
+  }
+> = {
+  light: { Icon: Sun, className: "text-yellow-500", rotate: 90, label: "lightTheme" },
+  dark: {
+    Icon: Moon,
+    className: "text-[color:var(--vs-accent)]",
+    rotate: -90,
+    label: "darkTheme",
+  },
+  system: {
+    Icon: Monitor,
+    className: "text-[color:var(--vs-text)]",
+    rotate: 45,
+    label: "systemTheme",
+  },
+};
+
+/** Label (tooltip / aria-label) describing the action of selecting a preference. */
+const ACTION_LABELS: Record<ThemePreference, "switchToLight" | "switchToDark" | "useSystemTheme"> =
+  {
+    light: "switchToLight",
+    dark: "switchToDark",
+    system: "useSystemTheme",
+  };
+
+/**
+ * A control for switching between light, dark and (optionally) system color themes.
+ * Reads and changes the theme through the active theme adapter.
  * Includes animated icons and a tooltip.
  *
  * @remarks
- * Ensure `ThemeProvider` from `next-themes` is set up in the consuming application.
+ * Needs a theme adapter: wrap the app in `ThemeProvider`, or in `NextThemesAdapter`
+ * (from `@venkatasudha/components/next-themes`) when using next-themes. Without one the toggle
+ * can't change the theme, so it renders nothing and warns once, in development.
  * Also, a `TooltipProvider` should ideally wrap the application or a significant portion of it.
  *
- * @returns A JSX.Element representing the dark mode toggle button.
+ * @param props - The props for the DarkModeToggle component.
+ * @returns A JSX.Element representing the dark mode toggle button, or `null` without a theme adapter.
  *
  * @example
  * ```tsx
- * // In a component within a ThemeProvider and TooltipProvider context:
+ * // In a component within a theme provider and TooltipProvider context:
  * <DarkModeToggle />
+ * <DarkModeToggle mode="segmented" value={profile.theme} onChange={saveThemePreference} />
  * ```
  */
-export const DarkModeToggle: React.FC = () => {
-  const { setTheme, resolvedTheme } = useTheme(); // `theme` gives user preference, `resolvedTheme` gives actual
+export const DarkModeToggle: React.FC<DarkModeToggleProps> = ({
+  mode = "toggle",
+  value,
+  onChange,
+  className,
+}) => {
+  const { theme, setTheme, resolvedTheme } = useThemeState(); // `theme` gives user preference, `resolvedTheme` gives actual
+  const hasThemeAdapter = useHasThemeAdapter();
   const [mounted, setMounted] = React.useState(false);
+  const shouldReduceMotion = useShouldReduceMotion();
+  const { labels } = useLocale();
+  const isControlled = value !== undefined;
+  const preference = (isControlled ? value : theme) ?? "system";
 
   // Effect to ensure component is mounted before using theme, avoids hydration mismatch
   React.useEffect(() => setMounted(true), []);
 
-  /**
-   * Toggles the theme between 'light' and 'dark'.
-   */
-  const toggleTheme = () => {
+  // A toggle that can't change anything is hidden; say why once, in development
+  React.useEffect(() => {
+    if (!hasThemeAdapter) warnMissingThemeAdapter();
+  }, [hasThemeAdapter]);
+
+  // Controlled mode: the active theme follows `value`
+  React.useEffect(() => {
+    if (hasThemeAdapter && isControlled && value !== theme) {
+      setTheme(value);
+    }
+  }, [hasThemeAdapter, isControlled, value, theme, setTheme]);
+
+  /** Selects a preference, reporting it to `onChange` and applying it when uncontrolled. */
+  const selectTheme = (nextTheme: ThemePreference) => {
     if (!mounted) return; // Prevent action before hydration
-    const nextTheme = resolvedTheme === "dark" ? "light" : "dark";
-    setTheme(nextTheme);
+    onChange?.(nextTheme);
+    if (!isControlled) {
+      setTheme(nextTheme);
+    }
   };
 
+  if (!hasThemeAdapter) return null;
+
   // Render a placeholder or nothing until mounted to prevent hydration errors
   if (!mounted) {
     // Placeholder to maintain layout space and prevent CLS
-    return <div className="w-9 h-9" aria-hidden="true" />;
+    return (
+      <div
+        className={clsx(mode === "segmented" ? "w-[6.75rem] h-9" : "w-9 h-9")}
+        aria-hidden="true"
+      />
+    );
+  }
+
+  if (mode === "segmented") {
+    return (
+      <EnsureNavBarTheme>
+        <ThemeSegmentedControl value={preference} onSelect={selectTheme} className={className} />
+      </EnsureNavBarTheme>
+    );
   }
 
-  const tooltipText = resolvedTheme === "dark" ? "Switch to light mode" : "Switch to dark mode";
+  // "toggle" flips the resolved theme; "cycle" steps through the preference order
+  const nextTheme: ThemePreference =
+    mode === "cycle"
+      ? THEME_ORDER[(THEME_ORDER.indexOf(preference) + 1) % THEME_ORDER.length]!
+      : resolvedTheme === "dark"
+        ? "light"
+        : "dark";
+  const displayedTheme: ThemePreference =
+    mode === "cycle" ? preference : resolvedTheme === "dark" ? "dark" : "light";
+  const { Icon, className: iconClassName, rotate } = THEME_ICONS[displayedTheme];
+  const tooltipText = labels[ACTION_LABELS[nextTheme]];
 
   return (
     // Consider if TooltipProvider should be here or at a higher level in the consuming app.
     // For a library component, it's safer to include it or document its necessity.
-    <TooltipProvider delayDuration={100}>
-      <Tooltip>
-        <TooltipTrigger asChild>
-          <motion.button
-            onClick={toggleTheme}
-            aria-label={tooltipText}
-            // Base styles - Consumer provides these via their Tailwind setup
-            className="relative z-10 flex items-center justify-center w-9 h-9 rounded-full text-gray-700 dark:text-gray-300 bg-gray-200/50 dark:bg-gray-800/50 hover:bg-gray-300/70 dark:hover:bg-gray-700/70 transition-colors duration-200 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-indigo-500 dark:focus-visible:ring-offset-gray-950"
-            whileHover={{ scale: 1.1, rotate: 15 }}
-            whileTap={{ scale: 0.95, rotate: -5 }}
-          >
-            <AnimatePresence mode="wait" initial={false}>
-              {resolvedTheme === "dark" ? (
-                <motion.div
-                  key="moon"
-                  initial={{ y: -20, opacity: 0, rotate: -90 }}
-                  animate={{ y: 0, opacity: 1, rotate: 0 }}
-                  exit={{ y: 20, opacity: 0, rotate: 90 }}
-                  transition={{ duration: 0.3, ease: "easeInOut" }}
-                  className="text-indigo-400" // Icon color - consumer styles
-                >
-                  <Moon className="w-5 h-5" />
-                </motion.div>
-              ) : (
+    <EnsureNavBarTheme>
+      <TooltipProvider delayDuration={100}>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <motion.button
+              onClick={() => selectTheme(nextTheme)}
+              aria-label={tooltipText}
+              // Base styles - Consumer provides these via their Tailwind setup
+              className={clsx(
+                "relative z-10 flex items-center justify-center w-9 h-9 rounded-full text-[color:var(--vs-text)] bg-[color:var(--vs-control)] hover:bg-[color:var(--vs-control-hover)] transition-colors duration-200 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-[color:var(--vs-focus-ring)] focus-visible:ring-offset-[color:var(--vs-focus-ring-offset)]",
+                className
+              )}
+              whileHover={shouldReduceMotion ? undefined : { scale: 1.1, rotate: 15 }}
+              whileTap={shouldReduceMotion ? undefined : { scale: 0.95, rotate: -5 }}
+            >
+              <AnimatePresence mode="wait" initial={false}>
                 <motion.div
-                  key="sun"
-                  initial={{ y: -20, opacity: 0, rotate: 90 }}
-                  animate={{ y: 0, opacity: 1, rotate: 0 }}
-                  exit={{ y: 20, opacity: 0, rotate: -90 }}
-                  transition={{ duration: 0.3, ease: "easeInOut" }}
-                  className="text-yellow-500" // Icon color - consumer styles
+                  key={displayedTheme}
+                  // Reduced motion cross-fades the icons instead of rotating them
+                  initial={shouldReduceMotion ? { opacity: 0 } : { y: -20, opacity: 0, rotate }}
+                  animate={shouldReduceMotion ? { opacity: 1 } : { y: 0, opacity: 1, rotate: 0 }}
+                  exit={
+                    shouldReduceMotion ? { opacity: 0 } : { y: 20, opacity: 0, rotate: -rotate }
+                  }
+                  transition={{ duration: shouldReduceMotion ? 0.15 : 0.3, ease: "easeInOut" }}
+                  className={iconClassName} // Icon color - consumer styles
                 >
-                  <Sun className="w-5 h-5" />
+                  <Icon className="w-5 h-5" />
                 </motion.div>
+              </AnimatePresence>
+            </motion.button>
+          </TooltipTrigger>
+          <TooltipContent
+            // Base styles - Consumer provides via Tailwind
+            className="bg-[color:var(--vs-tooltip-bg)] text-[color:var(--vs-tooltip-text)] px-2 py-1 rounded text-xs shadow-lg select-none"
+          >
+            <p>{tooltipText}</p>
+          </TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+    </EnsureNavBarTheme>
+  );
+};
+
+/**
+ * Props for the ThemeSegmentedControl component.
+ * @internal
+ */
+interface ThemeSegmentedControlProps {
+  value: ThemePreference;
+  onSelect: (theme: ThemePreference) => void;
+  className?: string;
+}
+
+/**
+ * Renders the light / dark / system segmented control with an animated selection pill.
+ * Follows the radio group pattern: arrow keys move the selection.
+ * @internal
+ */
+const ThemeSegmentedControl: React.FC<ThemeSegmentedControlProps> = ({
+  value,
+  onSelect,
+  className,
+}) => {
+  const buttonRefs = React.useRef<(HTMLButtonElement | null)[]>([]);
+  const layoutId = React.useId();
+  const shouldReduceMotion = useShouldReduceMotion();
+  const { labels, dir, isRtl } = useLocale();
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    // Horizontal arrows follow the visual order, which is mirrored in right-to-left layouts
+    const forwardKey = isRtl ? "ArrowLeft" : "ArrowRight";
+    const backwardKey = isRtl ? "ArrowRight" : "ArrowLeft";
+    const step =
+      event.key === forwardKey || event.key === "ArrowDown"
+        ? 1
+        : event.key === backwardKey || event.key === "ArrowUp"
+          ? -1
+          : 0;
+    if (!step) return;
+    event.preventDefault();
+    const index = (THEME_ORDER.indexOf(value) + step + THEME_ORDER.length) % THEME_ORDER.length;
+    onSelect(THEME_ORDER[index]!);
+    buttonRefs.current[index]?.focus();
+  };
+
+  return (
+    <div
+      role="radiogroup"
+      aria-label={labels.themeSelector}
+      dir={dir}
+      onKeyDown={handleKeyDown}
+      className={clsx(
+        "relative z-10 inline-flex items-center gap-0.5 p-0.5 rounded-full bg-[color:var(--vs-control)]",
+        className
+      )}
+    >
+      {THEME_ORDER.map((option, index) => {
+        const { Icon, className: iconClassName } = THEME_ICONS[option];
+        const label = labels[THEME_ICONS[option].label];
+        const isSelected = option === value;
+        return (
+          <button
+            key={option}
+            ref={(element) => {
+              buttonRefs.current[index] = element;
+            }}
+            type="button"
+            role="radio"
+            aria-checked={isSelected}
+            aria-label={label}
+            title={label}
+            tabIndex={isSelected ? 0 : -1} // Roving tabindex: only the selection is tabbable
+            onClick={() => onSelect(option)}
+            className="relative flex items-center justify-center w-8 h-8 rounded-full focus:outline-none focus-visible:ring-2 focus-visible:ring-[color:var(--vs-focus-ring)]"
+          >
+            {isSelected && (
+              <motion.span
+                layoutId={`theme-segment-${layoutId}`} // Pill slides between options
+                className="absolute inset-0 rounded-full bg-[color:var(--vs-surface)] shadow-sm"
+                transition={
+                  shouldReduceMotion
+                    ? { duration: 0 }
+                    : { type: "spring", stiffness: 400, damping: 30 }
+                }
+              />
+            )}
+            <motion.span
+              className={clsx(
+                "relative",
+                isSelected ? iconClassName : "text-[color:var(--vs-text-muted)]"
               )}
-            </AnimatePresence>
-          </motion.button>
-        </TooltipTrigger>
-        <TooltipContent
-          // Base styles - Consumer provides via Tailwind
-          className="bg-gray-900 text-white px-2 py-1 rounded text-xs shadow-lg dark:bg-gray-100 dark:text-gray-900 select-none"
-        >
-          <p>{tooltipText}</p>
-        </TooltipContent>
-      </Tooltip>
-    </TooltipProvider>
+              animate={{
+                rotate: isSelected ? 0 : -THEME_ICONS[option].rotate / 3,
+                scale: isSelected ? 1 : 0.9,
+              }}
+              transition={{ duration: shouldReduceMotion ? 0 : 0.3, ease: "easeInOut" }}
+            >
+              <Icon className="w-4 h-4" />
+            </motion.span>
+          </button>
+        );
+      })}
+    </div>
   );
 };
@@ -2,18 +2,38 @@
 "use client";
 
 import React from "react";
-import Link from "next/link"; // Peer dependency
 import { motion, AnimatePresence } from "framer-motion"; // Peer dependency
 import clsx from "clsx"; // Direct dependency (bundled)
-import type { MenuItem } from "./NavBar"; // Type import from sibling
+import { ChevronDown } from "lucide-react"; // Peer dependency
+import type { MenuItem, MenuSemantics } from "./NavBar"; // Type import from sibling
+import { MenuItemContent, MenuItemLink } from "./MenuItemLink";
+import { fadeVariants, useShouldReduceMotion } from "./ReducedMotionProvider";
+import { useLocale } from "./LocaleProvider";
+import {
+  getMenuItemKey,
+  groupMenuItems,
+  hasSubmenu,
+  isMenuItemActive,
+  type MenuItemActiveMatcher,
+} from "../utils/menuItems";
+import { MORE_ITEM_ID } from "../utils/priorityPlus";
+import type { NavBarState } from "../hooks/useNavBar";
+
+/** Delay (ms) before a hovered submenu opens, so passing the pointer over the bar doesn't flash panels. */
+const SUBMENU_OPEN_DELAY = 120;
+/** Delay (ms) before a submenu closes after the pointer leaves, giving time to reach the panel. */
+const SUBMENU_CLOSE_DELAY = 200;
+/** Time (ms) after the last keystroke before type-ahead starts a new search. */
+const TYPEAHEAD_RESET_DELAY = 500;
 
 // --- Animation Variants ---
 /**
  * Framer Motion variants for the container of each navigation item.
  * @param direction - The direction from which the item should animate ('left' or 'right').
+ * @param isRtl - Mirrors the direction, as the menu parts swap sides in right-to-left layouts.
  */
-const navItemContainerVariants = (direction: "left" | "right") => ({
-  hidden: { opacity: 0, x: direction === "left" ? -25 : 25, y: -5 },
+const navItemContainerVariants = (direction: "left" | "right", isRtl: boolean) => ({
+  hidden: { opacity: 0, x: (direction === "left" ? -25 : 25) * (isRtl ? -1 : 1), y: -5 },
   visible: {
     opacity: 1,
     x: 0,
@@ -30,8 +50,193 @@ const highlightVariants = {
   animate: { opacity: 1, scale: 1, y: 0, transition: { duration: 0.2, ease: "circOut" } },
   exit: { opacity: 0, scale: 0.9, y: 3, transition: { duration: 0.15, ease: "circIn" } },
 };
+
+/**
+ * Opacity-only highlight variants used under reduced motion.
+ */
+const reducedHighlightVariants = {
+  initial: { opacity: 0 },
+  animate: { opacity: 1, transition: { duration: 0.15, ease: "linear" } },
+  exit: { opacity: 0, transition: { duration: 0.15, ease: "linear" } },
+};
+
+/**
+ * Framer Motion variants for the dropdown / mega-menu panel.
+ */
+const submenuPanelVariants = {
+  hidden: { opacity: 0, y: -8, scale: 0.98, transition: { duration: 0.15, ease: "easeIn" } },
+  visible: {
+    opacity: 1,
+    y: 0,
+    scale: 1,
+    transition: { duration: 0.2, ease: "easeOut", staggerChildren: 0.04, delayChildren: 0.05 },
+  },
+};
+
+/**
+ * Framer Motion variants for the entries inside a submenu panel.
+ */
+const submenuItemVariants = {
+  hidden: { opacity: 0, y: -4 },
+  visible: { opacity: 1, y: 0, transition: { type: "spring", stiffness: 300, damping: 24 } },
+};
 // --- End Animation Variants ---
 
+/**
+ * Shared state of the desktop menu parts rendered in one bar.
+ * @internal
+ */
+interface DesktopMenubarContextValue {
+  /** Whether items use menubar roles and keyboard handling (`false` for the link-list mode). */
+  isMenubar: boolean;
+  /** Key of the top-level item holding the single tab stop, or `null` before one is chosen. */
+  tabStopKey: string | null;
+  setTabStopKey: (key: string) => void;
+  /**
+   * Handles Left / Right, Home / End and type-ahead on a top-level item.
+   * @returns Whether the key was handled (and focus moved).
+   */
+  handleItemKeyDown: (event: React.KeyboardEvent<HTMLElement>) => boolean;
+  /** Moves focus to the top-level item before (`-1`) or after (`1`) the given one, wrapping around. */
+  focusSibling: (from: HTMLElement, offset: 1 | -1) => void;
+}
+
+const DesktopMenubarContext = React.createContext<DesktopMenubarContextValue>({
+  isMenubar: true,
+  tabStopKey: null,
+  setTabStopKey: () => {},
+  handleItemKeyDown: () => false,
+  focusSibling: () => {},
+});
+
+/**
+ * Props for the DesktopMenubar component.
+ * @internal
+ */
+interface DesktopMenubarProps {
+  /** Menubar roles and keyboard model, or a plain list of links. */
+  semantics: MenuSemantics;
+  /** The top-level items rendered below; the tab stop moves when its item is removed. */
+  menuItems: MenuItem[];
+  /** Items in the trailing "More" dropdown, whose trigger is a top-level item too. */
+  overflowItems?: MenuItem[];
+  /** Layout classes of the container spanning the desktop bar. */
+  className?: string;
+  children: React.ReactNode;
+}
+
+/**
+ * Groups every DesktopMenuPart below it into one keyboard menubar. Each part is a `menubar`
+ * element of its own, so the logo and toggle between and beside the centered layout's halves
+ * stay outside them, while the halves share one tab stop (roving tabindex), Left / Right and
+ * Home / End move across both, and type-ahead jumps to an item in either.
+ * @internal
+ */
+export const DesktopMenubar: React.FC<DesktopMenubarProps> = ({
+  semantics,
+  menuItems,
+  overflowItems,
+  className,
+  children,
+}) => {
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  const [tabStopKey, setTabStopKey] = React.useState<string | null>(null);
+  const typeaheadRef = React.useRef<{ query: string; timer?: ReturnType<typeof setTimeout> }>({
+    query: "",
+  });
+  const { isRtl } = useLocale();
+  const isMenubar = semantics === "menubar";
+  const itemKeys = [
+    ...menuItems.map(getMenuItemKey),
+    ...(overflowItems?.length ? [MORE_ITEM_ID] : []),
+  ].join(" ");
+
+  /** The focusable top-level items of every part, in DOM order. */
+  const getItems = React.useCallback(
+    () =>
+      Array.from(containerRef.current?.querySelectorAll<HTMLElement>("[data-menubar-item]") ?? []),
+    []
+  );
+
+  // Keep the tab stop on an existing item: the first one, until another gets focus or if its item is removed
+  React.useEffect(() => {
+    if (!isMenubar) return;
+    const items = getItems();
+    if (!items.some((item) => item.dataset.menubarItem === tabStopKey)) {
+      setTabStopKey(items[0]?.dataset.menubarItem ?? null);
+    }
+  }, [isMenubar, itemKeys, tabStopKey, getItems]);
+
+  // Clear a pending type-ahead reset on unmount
+  React.useEffect(() => () => clearTimeout(typeaheadRef.current.timer), []);
+
+  const focusSibling = React.useCallback(
+    (from: HTMLElement, offset: 1 | -1) => {
+      const items = getItems();
+      const index = items.indexOf(from);
+      if (index < 0) return;
+      items[(index + offset + items.length) % items.length]?.focus();
+    },
+    [getItems]
+  );
+
+  const handleItemKeyDown = React.useCallback(
+    (event: React.KeyboardEvent<HTMLElement>) => {
+      const items = getItems();
+      const current = event.currentTarget;
+      // The parts' order mirrors in right-to-left layouts, and so do the arrow keys
+      const nextKey = isRtl ? "ArrowLeft" : "ArrowRight";
+      const previousKey = isRtl ? "ArrowRight" : "ArrowLeft";
+
+      switch (event.key) {
+        case nextKey:
+          focusSibling(current, 1);
+          return true;
+        case previousKey:
+          focusSibling(current, -1);
+          return true;
+        case "Home":
+          items[0]?.focus();
+          return true;
+        case "End":
+          items[items.length - 1]?.focus();
+          return true;
+      }
+
+      // Type-ahead: printable characters jump to the next item starting with the typed text
+      if (event.key.length !== 1 || event.ctrlKey || event.metaKey || event.altKey) return false;
+      const typeahead = typeaheadRef.current;
+      if (event.key === " " && typeahead.query === "") return false; // Space activates the item
+      clearTimeout(typeahead.timer);
+      typeahead.query += event.key.toLowerCase();
+      typeahead.timer = setTimeout(() => {
+        typeahead.query = "";
+      }, TYPEAHEAD_RESET_DELAY);
+
+      // A new search starts after the current item; a longer query may still match it
+      const start = items.indexOf(current) + (typeahead.query.length === 1 ? 1 : 0);
+      [...items.slice(start), ...items.slice(0, start)]
+        .find((item) => item.textContent?.trim().toLowerCase().startsWith(typeahead.query))
+        ?.focus();
+      return true;
+    },
+    [getItems, focusSibling, isRtl]
+  );
+
+  const value = React.useMemo(
+    () => ({ isMenubar, tabStopKey, setTabStopKey, handleItemKeyDown, focusSibling }),
+    [isMenubar, tabStopKey, handleItemKeyDown, focusSibling]
+  );
+
+  return (
+    <DesktopMenubarContext.Provider value={value}>
+      <div ref={containerRef} className={className}>
+        {children}
+      </div>
+    </DesktopMenubarContext.Provider>
+  );
+};
+
 /**
  * Props for the DesktopMenuPart component.
  * @internal
@@ -39,12 +244,19 @@ const highlightVariants = {
 interface DesktopMenuPartProps {
   /** Array of menu items to display in this part of the menu. */
   menuItems: MenuItem[];
-  /** The ID (without '#') of the currently active section, for highlighting. */
-  activeSectionId?: string | null;
+  /** Predicate deciding whether an item is active (scrollspy section or current route). */
+  isItemActive: MenuItemActiveMatcher;
   /** Optional CSS classes to apply to the link elements. */
   linkClassName?: string;
-  /** The direction this menu part represents, affecting alignment and animation. */
+  /**
+   * The side this menu part represents in a left-to-right layout, affecting alignment and
+   * animation. Both are mirrored in right-to-left layouts.
+   */
   direction: "left" | "right";
+  /** Props for each link: active state and smooth scrolling to sections, from `useNavBar`. */
+  getItemProps: NavBarState["getItemProps"];
+  /** Items moved out of the bar in priority-plus mode, listed in a trailing "More" dropdown. */
+  overflowItems?: MenuItem[];
 }
 
 /**
@@ -57,46 +269,113 @@ interface DesktopMenuPartProps {
  */
 export const DesktopMenuPart: React.FC<DesktopMenuPartProps> = ({
   menuItems,
-  activeSectionId,
+  isItemActive,
   linkClassName,
   direction,
+  getItemProps,
+  overflowItems,
 }) => {
+  const shouldReduceMotion = useShouldReduceMotion();
+  const { labels, isRtl } = useLocale();
+  const { isMenubar } = React.useContext(DesktopMenubarContext);
+  // A menubar of menu items, or a plain list of links inside the header's navigation landmark
+  const List = isMenubar ? motion.div : motion.ul;
+  const ListItem = isMenubar ? motion.div : motion.li;
+  // Overflowing items become the submenu of a synthesized "More" item
+  const items = overflowItems?.length
+    ? [...menuItems, { id: MORE_ITEM_ID, name: labels.moreItems, children: overflowItems }]
+    : menuItems;
+
   return (
-    <motion.div
+    <List
       className={clsx(
         "flex items-center",
-        // Consumer's Tailwind provides space utilities (e.g., space-x-1)
-        direction === "left"
-          ? "space-x-1 lg:space-x-2 justify-end"
-          : "space-x-1 lg:space-x-2 justify-start"
+        // Consumer's Tailwind provides gap utilities (direction-agnostic, unlike space-x)
+        direction === "left" ? "gap-1 lg:gap-2 justify-end" : "gap-1 lg:gap-2 justify-start"
       )}
       initial="hidden"
       animate="visible"
-      transition={{ staggerChildren: 0.07, delayChildren: 0.25 }} // Stagger animation for items
-      role="menubar"
-      aria-label={
-        direction === "left"
-          ? "Desktop Navigation Menu Left Side"
-          : "Desktop Navigation Menu Right Side"
-      }
+      // Stagger animation for items; reduced motion fades them in together
+      transition={shouldReduceMotion ? undefined : { staggerChildren: 0.07, delayChildren: 0.25 }}
+      // Each part is a menubar; DesktopMenubar joins them into one keyboard model
+      role={isMenubar ? (items.length ? "menubar" : "none") : undefined}
+      aria-label={isMenubar && items.length ? labels.desktopNavigation : undefined}
     >
-      {menuItems.map((item) => (
-        <motion.div
-          key={item.name}
-          variants={navItemContainerVariants(direction)}
-          role="none" // This div is for layout/animation, role is on NavItem's inner elements
+      {items.map((item) => (
+        <ListItem
+          key={getMenuItemKey(item)}
+          variants={shouldReduceMotion ? fadeVariants : navItemContainerVariants(direction, isRtl)}
+          role={isMenubar ? "none" : undefined} // This div is for layout/animation, role is on NavItem's inner elements
         >
           <NavItem
             item={item}
-            isActive={activeSectionId ? `#${activeSectionId}` === item.href : false}
+            isActive={isMenuItemActive(item, isItemActive)}
+            isItemActive={isItemActive}
             linkClassName={linkClassName}
+            getItemProps={getItemProps}
+            panelAlign={item.id === MORE_ITEM_ID ? "end" : "center"} // Keep it inside the bar
           />
-        </motion.div>
+        </ListItem>
       ))}
-    </motion.div>
+    </List>
   );
 };
 
+/**
+ * Props for the DesktopMenuMeasurer component.
+ * @internal
+ */
+interface DesktopMenuMeasurerProps {
+  /** Every top-level item, including those currently in the "More" dropdown. */
+  menuItems: MenuItem[];
+  linkClassName?: string;
+}
+
+/**
+ * Renders an invisible, non-interactive copy of the top-level items and the "More" trigger,
+ * with the same text and spacing as the bar, so priority-plus mode knows each item's width
+ * whether or not it is currently shown. Each entry carries its item key in `data-measure-key`.
+ * @internal
+ */
+export const DesktopMenuMeasurer = React.forwardRef<HTMLDivElement, DesktopMenuMeasurerProps>(
+  function DesktopMenuMeasurer({ menuItems, linkClassName }, ref) {
+    const { labels } = useLocale();
+    const moreItem: MenuItem = { id: MORE_ITEM_ID, name: labels.moreItems, children: menuItems };
+
+    return (
+      // A zero-size clip keeps the copy from affecting layout or page overflow
+      <div className="absolute h-0 w-0 overflow-hidden invisible" aria-hidden="true">
+        <div ref={ref} className="flex w-max items-center gap-1 lg:gap-2">
+          {[...menuItems, moreItem].map((item) => (
+            <div
+              key={getMenuItemKey(item)}
+              data-measure-key={getMenuItemKey(item)}
+              className="flex items-center px-0.5"
+            >
+              <span
+                className={clsx(
+                  "inline-flex items-center gap-1 px-3 py-2 text-sm lg:text-base font-medium whitespace-nowrap",
+                  item.variant === "cta" && "px-4 font-semibold",
+                  linkClassName
+                )}
+              >
+                <MenuItemContent item={item} />
+                {hasSubmenu(item) && !item.disabled && !item.href && (
+                  <ChevronDown className="h-4 w-4" />
+                )}
+              </span>
+              {/* The separate toggle of a parent with its own page: padding offsets its negative margin */}
+              {hasSubmenu(item) && !item.disabled && item.href && (
+                <ChevronDown className="h-4 w-4" />
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+);
+
 /**
  * Props for the individual NavItem component.
  * @internal
@@ -104,57 +383,490 @@ export const DesktopMenuPart: React.FC<DesktopMenuPartProps> = ({
 interface NavItemProps {
   item: MenuItem;
   isActive: boolean;
+  /** Active-state predicate, forwarded to submenu entries. */
+  isItemActive: MenuItemActiveMatcher;
   linkClassName?: string;
+  getItemProps: NavBarState["getItemProps"];
+  /** Alignment of the submenu panel with the item. */
+  panelAlign?: "center" | "end";
 }
 
 /**
  * Renders an individual navigation item for the desktop menu.
- * Includes hover and active state effects.
+ * Includes hover and active state effects. Items with `children` open an animated
+ * dropdown (or mega-menu) panel on hover-intent or click.
  * @param props - The props for the NavItem.
  * @returns A JSX.Element representing a single menu item.
  * @internal
  */
-const NavItem: React.FC<NavItemProps> = ({ item, isActive, linkClassName }) => {
+const NavItem: React.FC<NavItemProps> = ({
+  item,
+  isActive,
+  isItemActive,
+  linkClassName,
+  getItemProps,
+  panelAlign = "center",
+}) => {
+  const { labels, isRtl } = useLocale();
+  const shouldReduceMotion = useShouldReduceMotion();
   const [isHovered, setIsHovered] = React.useState(false);
+  const [isSubmenuOpen, setIsSubmenuOpen] = React.useState(false);
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  const triggerRef = React.useRef<HTMLButtonElement>(null);
+  const linkRef = React.useRef<HTMLAnchorElement>(null);
+  const pendingSubmenuFocusRef = React.useRef<"first" | "last" | null>(null);
+  const menubar = React.useContext(DesktopMenubarContext);
+  const { isMenubar } = menubar;
+  const itemKey = getMenuItemKey(item);
+  const intentTimerRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
+  const submenuId = React.useId();
+  const withSubmenu = hasSubmenu(item) && !item.disabled; // A disabled parent doesn't open
+  const isCta = item.variant === "cta";
+
+  const clearIntentTimer = React.useCallback(() => {
+    if (intentTimerRef.current) {
+      clearTimeout(intentTimerRef.current);
+      intentTimerRef.current = null;
+    }
+  }, []);
+
+  /** Opens or closes the submenu after the hover-intent delay. */
+  const scheduleSubmenu = React.useCallback(
+    (open: boolean) => {
+      clearIntentTimer();
+      intentTimerRef.current = setTimeout(
+        () => setIsSubmenuOpen(open),
+        open ? SUBMENU_OPEN_DELAY : SUBMENU_CLOSE_DELAY
+      );
+    },
+    [clearIntentTimer]
+  );
+
+  // Clear any pending hover-intent timer on unmount
+  React.useEffect(() => clearIntentTimer, [clearIntentTimer]);
+
+  // Close the open submenu on outside pointer down or 'Escape'
+  React.useEffect(() => {
+    if (!isSubmenuOpen || typeof document === "undefined") return;
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsSubmenuOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        setIsSubmenuOpen(false);
+        // Return focus to the trigger (in a menubar, to the item holding the tab stop)
+        (isMenubar && item.href ? linkRef.current : triggerRef.current)?.focus();
+      }
+    };
+    document.addEventListener("pointerdown", handlePointerDown);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("pointerdown", handlePointerDown);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [isSubmenuOpen, isMenubar, item.href]);
+
+  /** Focuses the first or last entry of the open submenu panel. */
+  const focusSubmenuItem = React.useCallback(
+    (position: "first" | "last") => {
+      const entries = Array.from(
+        document.getElementById(submenuId)?.querySelectorAll<HTMLElement>("[data-submenu-item]") ??
+          []
+      );
+      (position === "first" ? entries[0] : entries[entries.length - 1])?.focus();
+    },
+    [submenuId]
+  );
+
+  // Move focus into the panel once it has rendered, when it was opened from the keyboard
+  React.useEffect(() => {
+    const position = pendingSubmenuFocusRef.current;
+    if (!isSubmenuOpen || !position) return;
+    pendingSubmenuFocusRef.current = null;
+    focusSubmenuItem(position);
+  }, [isSubmenuOpen, focusSubmenuItem]);
+
+  /** Opens the submenu from the keyboard, focusing its first or last entry. */
+  const openSubmenuFromKeyboard = (position: "first" | "last") => {
+    clearIntentTimer();
+    if (isSubmenuOpen) {
+      focusSubmenuItem(position);
+    } else {
+      pendingSubmenuFocusRef.current = position;
+      setIsSubmenuOpen(true);
+    }
+  };
+
+  /** Menubar keys on the top-level item: Down / Up (and Enter / Space on triggers) open the submenu. */
+  const handleItemKeyDown = (event: React.KeyboardEvent<HTMLElement>) => {
+    const opensSubmenu =
+      event.key === "ArrowDown" ||
+      event.key === "ArrowUp" ||
+      (!item.href && (event.key === "Enter" || event.key === " "));
+    if (withSubmenu && opensSubmenu) {
+      event.preventDefault();
+      openSubmenuFromKeyboard(event.key === "ArrowUp" ? "last" : "first");
+    } else if (menubar.handleItemKeyDown(event)) {
+      event.preventDefault();
+      setIsSubmenuOpen(false);
+    }
+  };
+
+  /** Menu keys inside the panel: Up / Down, Home / End, and Left / Right to the neighbouring item. */
+  const handlePanelKeyDown = (event: React.KeyboardEvent<HTMLElement>) => {
+    const entries = Array.from(
+      event.currentTarget.querySelectorAll<HTMLElement>("[data-submenu-item]")
+    );
+    const index = entries.indexOf(document.activeElement as HTMLElement);
+    const itemElement = item.href ? linkRef.current : triggerRef.current;
+    let target: HTMLElement | undefined;
+
+    switch (event.key) {
+      case "ArrowDown":
+        target = entries[(index + 1) % entries.length];
+        break;
+      case "ArrowUp":
+        target = entries[(index - 1 + entries.length) % entries.length];
+        break;
+      case "Home":
+        target = entries[0];
+        break;
+      case "End":
+        target = entries[entries.length - 1];
+        break;
+      case "ArrowLeft":
+      case "ArrowRight": {
+        if (!itemElement) return;
+        const isNext = (event.key === "ArrowRight") !== isRtl;
+        event.preventDefault();
+        setIsSubmenuOpen(false);
+        menubar.focusSibling(itemElement, isNext ? 1 : -1);
+        return;
+      }
+      default:
+        return;
+    }
+    event.preventDefault();
+    target?.focus();
+  };
+
+  // Roving tab stop: one top-level item is tabbable, the arrow keys move between them.
+  // Disabled items stay reachable (announced through `aria-disabled`) but don't activate.
+  const menubarItemProps = isMenubar
+    ? {
+        "data-menubar-item": itemKey,
+        tabIndex: menubar.tabStopKey === null || menubar.tabStopKey === itemKey ? 0 : -1,
+        onFocus: () => menubar.setTabStopKey(itemKey),
+        onKeyDown: handleItemKeyDown,
+      }
+    : {};
+
+  /** Toggles the submenu immediately (click / keyboard activation). */
+  const handleTriggerClick = () => {
+    clearIntentTimer();
+    setIsSubmenuOpen((open) => !open);
+  };
+
+  /** Closes the submenu when focus moves outside of this item. */
+  const handleBlur = (event: React.FocusEvent<HTMLDivElement>) => {
+    if (!containerRef.current?.contains(event.relatedTarget as Node | null)) {
+      clearIntentTimer();
+      setIsSubmenuOpen(false);
+    }
+  };
+
+  const linkClasses = clsx(
+    // Base styles for link - consumer's Tailwind provides these utilities
+    `relative group block px-3 py-2 text-sm lg:text-base font-medium transition-colors duration-150 rounded-md focus:outline-none focus-visible:ring-2 focus-visible:ring-[color:var(--vs-focus-ring)] focus-visible:ring-offset-2 focus-visible:ring-offset-[color:var(--vs-focus-ring-offset)]`,
+    isCta
+      ? "px-4 rounded-full bg-[color:var(--vs-accent)] text-[color:var(--vs-accent-text)] font-semibold shadow-sm hover:opacity-90" // Call-to-action button
+      : isActive
+        ? "text-[color:var(--vs-accent)]" // Active state text color
+        : "text-[color:var(--vs-text)] hover:text-[color:var(--vs-text-strong)]", // Default & hover text colors
+    linkClassName // Allow consumer to pass additional classes
+  );
+
+  const chevron = (
+    <motion.span
+      className="inline-flex"
+      animate={{ rotate: isSubmenuOpen ? 180 : 0 }}
+      transition={{ duration: shouldReduceMotion ? 0 : 0.2 }}
+      aria-hidden="true"
+    >
+      <ChevronDown className="h-4 w-4" />
+    </motion.span>
+  );
 
   return (
     <motion.div
-      onHoverStart={() => setIsHovered(true)}
-      onHoverEnd={() => setIsHovered(false)}
+      ref={containerRef}
+      onHoverStart={() => {
+        setIsHovered(true);
+        if (withSubmenu) scheduleSubmenu(true);
+      }}
+      onHoverEnd={() => {
+        setIsHovered(false);
+        if (withSubmenu) scheduleSubmenu(false);
+      }}
+      onBlur={withSubmenu ? handleBlur : undefined}
       className="relative px-0.5 py-0.5" // Padding for highlight to fit correctly
-      role="menuitem" // ARIA role for a menu item
-      whileHover={{ y: -2.5 }} // Subtle lift effect on hover
+      role={isMenubar ? "none" : undefined} // Semantics live on the link / trigger elements
+      whileHover={shouldReduceMotion ? undefined : { y: -2.5 }} // Subtle lift effect on hover
       transition={{ type: "spring", stiffness: 350, damping: 18 }}
     >
-      <Link
-        href={item.href}
-        className={clsx(
-          // Base styles for link - consumer's Tailwind provides these utilities
-          `relative group block px-3 py-2 text-sm lg:text-base font-medium transition-colors duration-150 rounded-md focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500 focus-visible:ring-offset-2 dark:focus-visible:ring-offset-gray-900`,
-          isActive
-            ? "text-indigo-600 dark:text-indigo-400" // Active state text color
-            : "text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100", // Default & hover text colors
-          linkClassName // Allow consumer to pass additional classes
-        )}
-        aria-current={isActive ? "page" : undefined} // ARIA attribute for current page link
-      >
-        {item.name}
-      </Link>
-      {/* Highlight effect - a pill that animates in */}
+      {withSubmenu && !item.href ? (
+        // Parent without its own page: the whole label toggles the submenu
+        <button
+          ref={triggerRef}
+          type="button"
+          className={clsx(linkClasses, "inline-flex items-center gap-1")}
+          role={isMenubar ? "menuitem" : undefined} // ARIA role for a menu item
+          aria-haspopup={isMenubar ? "menu" : undefined} // A disclosure button in list mode
+          aria-expanded={isSubmenuOpen}
+          aria-controls={submenuId}
+          onClick={handleTriggerClick}
+          {...menubarItemProps}
+        >
+          <MenuItemContent item={item} />
+          {chevron}
+        </button>
+      ) : (
+        <div className="flex items-center">
+          <MenuItemLink
+            ref={linkRef}
+            item={item}
+            {...getItemProps(item)} // Active state (aria-current) and smooth section scrolling
+            className={linkClasses}
+            role={isMenubar ? "menuitem" : undefined} // ARIA role for a menu item
+            {...menubarItemProps}
+          />
+          {withSubmenu && (
+            // Parent with its own page: a separate toggle keeps the link navigable
+            <button
+              ref={triggerRef}
+              type="button"
+              className={clsx(
+                "p-1 rounded-md text-[color:var(--vs-text-muted)] hover:text-[color:var(--vs-text-strong)] focus:outline-none focus-visible:ring-2 focus-visible:ring-[color:var(--vs-focus-ring)]",
+                isRtl ? "-mr-2" : "-ml-2" // Tuck against the link on its inline-end side
+              )}
+              aria-label={labels.submenu(item.name)}
+              aria-haspopup={isMenubar ? "menu" : undefined}
+              aria-expanded={isSubmenuOpen}
+              aria-controls={submenuId}
+              onClick={handleTriggerClick}
+              tabIndex={isMenubar ? -1 : undefined} // In a menubar, Down on the link opens the submenu
+            >
+              {chevron}
+            </button>
+          )}
+        </div>
+      )}
+      {/* Highlight effect - a pill that animates in (call-to-action buttons have their own background) */}
       <AnimatePresence>
-        {(isHovered || isActive) && (
+        {(isHovered || isActive) && !isCta && (
           <motion.div
             // Unique layoutId for smooth animation when moving between items
-            layoutId={`desktop-nav-item-highlight-${item.name.replace(/\s+/g, "-")}`}
-            variants={highlightVariants}
+            layoutId={`desktop-nav-item-highlight-${getMenuItemKey(item)}`}
+            variants={shouldReduceMotion ? reducedHighlightVariants : highlightVariants}
             initial="initial"
             animate="animate"
             exit="exit"
             // Base styles for highlight - consumer's Tailwind provides these utilities
-            className="absolute inset-0 -z-10 bg-gray-100 dark:bg-gray-800/70 rounded-md shadow-sm pointer-events-none"
+            className="absolute inset-0 -z-10 bg-[color:var(--vs-highlight)] rounded-md shadow-sm pointer-events-none"
           />
         )}
       </AnimatePresence>
+      {/* Dropdown / mega-menu panel */}
+      <AnimatePresence>
+        {withSubmenu && isSubmenuOpen && (
+          <SubmenuPanel
+            id={submenuId}
+            item={item}
+            isItemActive={isItemActive}
+            onNavigate={() => setIsSubmenuOpen(false)}
+            getItemProps={getItemProps}
+            onKeyDown={isMenubar ? handlePanelKeyDown : undefined}
+            align={panelAlign}
+          />
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+};
+
+/**
+ * Props for the SubmenuPanel component.
+ * @internal
+ */
+interface SubmenuPanelProps {
+  /** DOM id of the panel, referenced by the trigger's `aria-controls`. */
+  id: string;
+  /** The parent item whose `children` are rendered. */
+  item: MenuItem & { children: MenuItem[] };
+  isItemActive: MenuItemActiveMatcher;
+  /** Called when one of the panel links is activated. */
+  onNavigate: () => void;
+  getItemProps: NavBarState["getItemProps"];
+  /** Keyboard handling for the entries (menubar mode). */
+  onKeyDown?: React.KeyboardEventHandler<HTMLElement>;
+  /** Centered under the trigger, or aligned with its inline end. */
+  align?: "center" | "end";
+}
+
+/**
+ * Renders the animated panel for a desktop submenu.
+ * Children are shown as a single dropdown column, or as a multi-column mega-menu
+ * when any child defines a `group` heading.
+ * @internal
+ */
+const SubmenuPanel: React.FC<SubmenuPanelProps> = ({
+  id,
+  item,
+  isItemActive,
+  onNavigate,
+  getItemProps,
+  onKeyDown,
+  align = "center",
+}) => {
+  const groups = groupMenuItems(item.children);
+  const isMegaMenu = groups.some((group) => group.heading);
+  const shouldReduceMotion = useShouldReduceMotion();
+  const { isRtl } = useLocale();
+  const { isMenubar } = React.useContext(DesktopMenubarContext);
+
+  return (
+    <motion.div
+      id={id}
+      role={isMenubar ? "menu" : undefined}
+      aria-label={isMenubar ? item.name : undefined}
+      onKeyDown={onKeyDown}
+      variants={shouldReduceMotion ? fadeVariants : submenuPanelVariants}
+      initial="hidden"
+      animate="visible"
+      exit="hidden"
+      // Centered under the trigger; `x` is set through style so it composes with the animated `y`
+      style={{
+        x: align === "center" ? "-50%" : 0,
+        gridTemplateColumns: isMegaMenu
+          ? `repeat(${groups.length}, minmax(12rem, 1fr))`
+          : undefined,
+      }}
+      className={clsx(
+        "absolute top-full z-40 mt-2 rounded-lg border border-[color:var(--vs-border)] bg-[color:var(--vs-surface)] backdrop-blur-md shadow-lg",
+        align === "center" ? "left-1/2" : isRtl ? "left-0" : "right-0",
+        isMegaMenu ? "grid gap-6 p-6 w-max" : "flex flex-col min-w-[14rem] p-2"
+      )}
+    >
+      {groups.map((group, index) => (
+        <div
+          key={group.heading ?? `group-${index}`}
+          role={isMenubar ? "none" : undefined}
+          className="flex flex-col"
+        >
+          {group.heading && (
+            <motion.p
+              variants={shouldReduceMotion ? undefined : submenuItemVariants}
+              role="presentation"
+              className="px-3 pb-2 text-xs font-semibold uppercase tracking-wide text-[color:var(--vs-text-muted)]"
+            >
+              {group.heading}
+            </motion.p>
+          )}
+          {group.items.map((child) => (
+            <SubmenuLink
+              key={getMenuItemKey(child)}
+              item={child}
+              isItemActive={isItemActive}
+              onNavigate={onNavigate}
+              getItemProps={getItemProps}
+            />
+          ))}
+        </div>
+      ))}
+    </motion.div>
+  );
+};
+
+/**
+ * Props for the SubmenuLink component.
+ * @internal
+ */
+interface SubmenuLinkProps {
+  item: MenuItem;
+  isItemActive: MenuItemActiveMatcher;
+  onNavigate: () => void;
+  getItemProps: NavBarState["getItemProps"];
+  /** Nesting depth below the panel's top level, used for indentation. */
+  depth?: number;
+}
+
+/**
+ * Renders a single entry in a submenu panel, with its optional description.
+ * Deeper descendants are rendered indented beneath it.
+ * @internal
+ */
+const SubmenuLink: React.FC<SubmenuLinkProps> = ({
+  item,
+  isItemActive,
+  onNavigate,
+  getItemProps,
+  depth = 0,
+}) => {
+  const isActive = isMenuItemActive(item, isItemActive);
+  const shouldReduceMotion = useShouldReduceMotion();
+  const { isMenubar } = React.useContext(DesktopMenubarContext);
+
+  return (
+    <motion.div
+      variants={shouldReduceMotion ? undefined : submenuItemVariants}
+      role={isMenubar ? "none" : undefined}
+      style={{ paddingInlineStart: depth * 12 }} // Logical padding indents from the right in RTL
+    >
+      {item.href ? (
+        <MenuItemLink
+          item={item}
+          {...getItemProps(item, { onClick: onNavigate })}
+          role={isMenubar ? "menuitem" : undefined}
+          // Menu entries are reached with the arrow keys rather than Tab, disabled ones included
+          data-submenu-item=""
+          tabIndex={isMenubar ? -1 : undefined}
+          className={clsx(
+            "block rounded-md px-3 py-2 transition-colors duration-150 focus:outline-none focus-visible:ring-2 focus-visible:ring-[color:var(--vs-focus-ring)]",
+            isActive
+              ? "bg-[color:var(--vs-accent-soft)] text-[color:var(--vs-accent)]"
+              : "text-[color:var(--vs-text-strong)] hover:bg-[color:var(--vs-highlight)]"
+          )}
+        >
+          <span className="block text-sm font-medium">
+            <MenuItemContent item={item} />
+          </span>
+          {item.description && (
+            <span className="block mt-0.5 text-xs text-[color:var(--vs-text-muted)]">
+              {item.description}
+            </span>
+          )}
+        </MenuItemLink>
+      ) : (
+        <p
+          role="presentation"
+          className="px-3 py-2 text-sm font-medium text-[color:var(--vs-text-muted)]"
+        >
+          {item.name}
+        </p>
+      )}
+      {hasSubmenu(item) &&
+        item.children.map((child) => (
+          <SubmenuLink
+            key={getMenuItemKey(child)}
+            item={child}
+            isItemActive={isItemActive}
+            onNavigate={onNavigate}
+            getItemProps={getItemProps}
+            depth={depth + 1}
+          />
+        ))}
     </motion.div>
   );
 };
@@ -0,0 +1,105 @@
+"use client";
+
+import React from "react";
+import { useLocationPathname } from "../hooks/useLocationPathname";
+
+/**
+ * Props every link component receives from the library's internal components.
+ */
+export type LinkComponentProps = React.AnchorHTMLAttributes<HTMLAnchorElement> & {
+  /** The destination URL or hash link. */
+  href: string;
+};
+
+/**
+ * A component rendering a navigational link, e.g. a plain `<a>`, `next/link`,
+ * or a small wrapper around React Router's / Remix's `Link` mapping `href` to `to`.
+ */
+export type LinkComponent = React.ComponentType<
+  LinkComponentProps & React.RefAttributes<HTMLAnchorElement>
+>;
+
+/**
+ * Connects the library to an application's router.
+ */
+export interface LinkAdapter {
+  /** Component used for every internal link (menu items, submenu entries, logo). */
+  Link: LinkComponent;
+  /**
+   * Hook returning the current pathname, used for route-aware active state.
+   * Must be the same function for the lifetime of the adapter, as it is called as a hook.
+   * @default A hook reading `window.location.pathname`.
+   */
+  usePathname?: () => string | null;
+}
+
+/**
+ * The default link component: a plain `<a>` element.
+ */
+export const DefaultLink = React.forwardRef<HTMLAnchorElement, LinkComponentProps>(
+  function DefaultLink(props, ref) {
+    return <a ref={ref} {...props} />;
+  }
+);
+
+/**
+ * The default adapter, using plain `<a>` elements and `window.location.pathname`.
+ */
+export const defaultLinkAdapter: LinkAdapter = {
+  Link: DefaultLink,
+  usePathname: useLocationPathname,
+};
+
+const LinkAdapterContext = React.createContext<LinkAdapter>(defaultLinkAdapter);
+
+/**
+ * Props for the LinkProvider component.
+ */
+export interface LinkProviderProps {
+  /** The adapter to use for all library components rendered below this provider. */
+  adapter: LinkAdapter;
+  children: React.ReactNode;
+}
+
+/**
+ * Provides the link adapter used by `NavBar`, `Logo` and the internal menus.
+ *
+ * @example
+ * ```tsx
+ * import { nextLinkAdapter } from "@venkatasudha/components/next";
+ *
+ * <LinkProvider adapter={nextLinkAdapter}>
+ *   <NavBar menuItems={menuItems} />
+ * </LinkProvider>
+ * ```
+ */
+export const LinkProvider: React.FC<LinkProviderProps> = ({ adapter, children }) => (
+  <LinkAdapterContext.Provider value={adapter}>{children}</LinkAdapterContext.Provider>
+);
+
+/**
+ * Returns the link adapter from the nearest `LinkProvider`, or the default `<a>` adapter.
+ * @internal
+ */
+export const useLinkAdapter = (): LinkAdapter => React.useContext(LinkAdapterContext);
+
+let hasWarnedAboutNextRouter = false;
+
+/**
+ * Warns once, in development, when the default `<a>` adapter is used on a Next.js page, where
+ * links would lose client-side navigation and prefetching without `nextLinkAdapter`.
+ * @internal
+ */
+export const useWarnOnDefaultLinkAdapterInNext = (adapter: LinkAdapter): void => {
+  React.useEffect(() => {
+    if (process.env.NODE_ENV === "production" || hasWarnedAboutNextRouter) return;
+    if (adapter !== defaultLinkAdapter) return;
+    // Both Next.js routers expose `window.next`; the Pages Router also renders `__NEXT_DATA__`
+    const isNextPage = "next" in window || document.getElementById("__NEXT_DATA__") !== null;
+    if (!isNextPage) return;
+    hasWarnedAboutNextRouter = true;
+    console.warn(
+      '[LinkAdapter] Next.js detected, but links render as plain <a> elements without client-side navigation or prefetching. Pass `nextLinkAdapter` from "@venkatasudha/components/next" to `LinkProvider` or the NavBar\'s `linkAdapter` prop.'
+    );
+  }, [adapter]);
+};
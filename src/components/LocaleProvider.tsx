@@ -0,0 +1,152 @@
+"use client";
+
+import React from "react";
+
+/** Text direction of the navigation. */
+export type Direction = "ltr" | "rtl";
+
+/**
+ * Every user-facing and ARIA string rendered by the library's components.
+ */
+export interface NavBarLabels {
+  /** `aria-label` of the `<header>` navigation landmark. */
+  mainNavigation: string;
+  /** `aria-label` of the desktop menu bar (both halves in the centered layout). */
+  desktopNavigation: string;
+  /** `aria-label` of the mobile menu dialog. */
+  mobileNavigation: string;
+  /** Label and tooltip of the hamburger button. */
+  openMenu: string;
+  /** Label and tooltip of the mobile menu close button. */
+  closeMenu: string;
+  /** Label of the button toggling an item's submenu, given the item's name. */
+  submenu: (itemName: string) => string;
+  /** Name of the desktop dropdown holding the items that don't fit the bar (priority-plus mode). */
+  moreItems: string;
+  /** Visually hidden note appended to external links opening in a new tab. */
+  opensInNewTab: string;
+  /** `aria-label` of the logo link. */
+  homepageLogo: string;
+  /** `aria-label` of the segmented theme control. */
+  themeSelector: string;
+  /** Name of the light theme option. */
+  lightTheme: string;
+  /** Name of the dark theme option. */
+  darkTheme: string;
+  /** Name of the system theme option. */
+  systemTheme: string;
+  /** Label and tooltip of the toggle when it switches to light mode. */
+  switchToLight: string;
+  /** Label and tooltip of the toggle when it switches to dark mode. */
+  switchToDark: string;
+  /** Label and tooltip of the toggle when it switches to the system theme. */
+  useSystemTheme: string;
+}
+
+/** The default English labels. */
+export const defaultNavBarLabels: NavBarLabels = {
+  mainNavigation: "Main Navigation",
+  desktopNavigation: "Desktop Navigation Menu",
+  mobileNavigation: "Mobile Navigation Menu",
+  openMenu: "Open menu",
+  closeMenu: "Close menu",
+  submenu: (itemName) => `${itemName} submenu`,
+  moreItems: "More",
+  opensInNewTab: "(opens in a new tab)",
+  homepageLogo: "Homepage Logo",
+  themeSelector: "Theme",
+  lightTheme: "Light",
+  darkTheme: "Dark",
+  systemTheme: "System",
+  switchToLight: "Switch to light mode",
+  switchToDark: "Switch to dark mode",
+  useSystemTheme: "Use system theme",
+};
+
+/**
+ * Resolved locale settings.
+ * @internal
+ */
+interface Locale {
+  labels: NavBarLabels;
+  /** Explicit direction, or `undefined` to inherit the document's. */
+  dir?: Direction;
+}
+
+const LocaleContext = React.createContext<Locale>({ labels: defaultNavBarLabels });
+
+/** Follows `dir` attribute changes on `<html>` and `<body>`. */
+const subscribeToDocumentDirection = (onChange: () => void) => {
+  const observer = new MutationObserver(onChange);
+  const observerOptions = { attributes: true, attributeFilter: ["dir"] };
+  observer.observe(document.documentElement, observerOptions);
+  if (document.body) observer.observe(document.body, observerOptions);
+  return () => observer.disconnect();
+};
+const subscribeToNothing = () => () => {};
+
+/** Reads the direction the page's content inherits, from `<body>` (or `<html>` before it exists). */
+const getDocumentDirection = (): Direction =>
+  getComputedStyle(document.body ?? document.documentElement).direction === "rtl" ? "rtl" : "ltr";
+const getServerDirection = (): Direction => "ltr";
+
+/**
+ * Props for the LocaleProvider component.
+ */
+export interface LocaleProviderProps {
+  /** Labels to override; unspecified labels come from the parent provider or the English defaults. */
+  labels?: Partial<NavBarLabels>;
+  /**
+   * Text direction. `"rtl"` mirrors the layout, slide directions and the mobile menu reveal origin.
+   * When omitted, the parent provider's direction is kept.
+   */
+  dir?: Direction;
+  children: React.ReactNode;
+}
+
+/**
+ * Provides translated labels and the text direction to every NavBar, Logo and DarkModeToggle below it.
+ *
+ * @example
+ * ```tsx
+ * <LocaleProvider dir="rtl" labels={{ openMenu: "فتح القائمة", closeMenu: "إغلاق القائمة" }}>
+ *   <NavBar menuItems={menuItems} />
+ * </LocaleProvider>
+ * ```
+ */
+export const LocaleProvider: React.FC<LocaleProviderProps> = ({ labels, dir, children }) => {
+  const parentLocale = React.useContext(LocaleContext);
+  const locale = React.useMemo<Locale>(
+    () => ({
+      labels: { ...parentLocale.labels, ...labels },
+      dir: dir ?? parentLocale.dir,
+    }),
+    [parentLocale, labels, dir]
+  );
+
+  return <LocaleContext.Provider value={locale}>{children}</LocaleContext.Provider>;
+};
+
+/**
+ * Returns the labels and direction from the nearest `LocaleProvider`, with optional overrides
+ * taking precedence (e.g. a component's own `labels` / `dir` props).
+ * Without an explicit direction, `dir` stays `undefined` (inherited) and `isRtl` follows the
+ * document's direction once mounted, e.g. `<html dir="rtl">`.
+ * @internal
+ */
+export const useLocale = (overrides?: Partial<LocaleProviderProps>) => {
+  const locale = React.useContext(LocaleContext);
+  const overrideLabels = overrides?.labels;
+  const labels = React.useMemo(
+    () => (overrideLabels ? { ...locale.labels, ...overrideLabels } : locale.labels),
+    [locale.labels, overrideLabels]
+  );
+  const dir = overrides?.dir ?? locale.dir;
+  // Only follow the document while the direction is inherited
+  const documentDirection = React.useSyncExternalStore(
+    dir ? subscribeToNothing : subscribeToDocumentDirection,
+    dir ? getServerDirection : getDocumentDirection,
+    getServerDirection
+  );
+  return { labels, dir, isRtl: (dir ?? documentDirection) === "rtl" };
+};
@@ -1,9 +1,13 @@
 "use client";
 
 import React from "react";
-import Link from "next/link";
 import { motion, Target, TargetAndTransition } from "framer-motion"; // Import Target types
 import clsx from "clsx";
+import { useLinkAdapter } from "./LinkProvider";
+import { EnsureNavBarTheme, resolveThemedValue, useNavBarTheme } from "./NavBarTheme";
+import { useThemeState } from "./ThemeProvider";
+import { useShouldReduceMotion } from "./ReducedMotionProvider";
+import { useLocale } from "./LocaleProvider";
 
 /**
  * Props for the Logo component.
@@ -21,6 +25,7 @@ export interface LogoProps {
   href?: string;
   /**
    * Optional additional CSS classes to apply to the outer `<a>` tag (the link wrapper).
+   * The link is rendered with the component from the nearest `LinkProvider`.
    * This allows for custom layout or spacing around the logo component.
    */
   className?: string;
@@ -81,6 +86,17 @@ export const Logo: React.FC<LogoProps> = ({
   hoverVariant,
   tapVariant,
 }) => {
+  const { Link } = useLinkAdapter(); // Router-specific link component, plain <a> by default
+  const shouldReduceMotion = useShouldReduceMotion();
+  const { labels } = useLocale();
+  const navBarTheme = useNavBarTheme();
+  const { resolvedTheme } = useThemeState(); // From the active theme adapter
+  // A concrete color from the design tokens, so the glow can interpolate
+  const glowColor = resolveThemedValue(
+    navBarTheme.glow,
+    resolvedTheme === "dark" ? "dark" : "light"
+  );
+
   // Define default Framer Motion animations
   const defaultInitial: Target = { y: -20, opacity: 0, scale: 0.9 };
   const defaultAnimate: TargetAndTransition = {
@@ -92,33 +108,44 @@ export const Logo: React.FC<LogoProps> = ({
   const defaultHover: TargetAndTransition = {
     scale: 1.15,
     rotate: [0, -3, 3, -3, 0], // Subtle wiggle
-    // Using CSS variables for theme-aware filter is tricky with Framer Motion directly.
-    // Consumer can apply this through `textClassName` or `hoverVariant` if highly specific filter needed.
-    // For simplicity here, we'll use a generic shadow or rely on consumer overrides.
-    filter: "drop-shadow(0px 0px 6px rgba(99, 102, 241, 0.5))", // Example indigo-like glow
+    filter: `drop-shadow(0px 0px 6px ${glowColor})`, // Glow from the `glow` token
     transition: { duration: 0.4, type: "spring", stiffness: 200, damping: 10 },
   };
   const defaultTap: TargetAndTransition = { scale: 1.05 };
 
+  // Reduced motion: fade in, and keep only the glow on hover
+  const reducedInitial: Target = { opacity: 0 };
+  const reducedAnimate: TargetAndTransition = { opacity: 1, transition: { duration: 0.2 } };
+  const reducedHover: TargetAndTransition = {
+    filter: defaultHover.filter,
+    transition: { duration: 0.2 },
+  };
+
   return (
-    <Link href={href} className={clsx("z-20 flex-shrink-0", className)} aria-label="Homepage Logo">
-      <motion.span
-        className={clsx(
-          // Base styles for text - consumer's Tailwind config provides these utilities
-          "text-3xl font-bold text-gray-900 dark:text-gray-100",
-          "cursor-pointer transition-colors duration-300 ease-in-out",
-          "hover:text-indigo-500 dark:hover:text-indigo-300", // Hover text color change
-          "inline-block", // Necessary for some transforms to apply correctly
-          textClassName // Consumer-provided classes for font, text color, etc.
-        )}
-        style={{ fontVariantLigatures: "common-ligatures" }} // Optional stylistic choice
-        initial={initialVariant ?? defaultInitial}
-        animate={animateVariant ?? defaultAnimate}
-        whileHover={hoverVariant ?? defaultHover}
-        whileTap={tapVariant ?? defaultTap}
+    <EnsureNavBarTheme>
+      <Link
+        href={href}
+        className={clsx("z-20 flex-shrink-0", className)}
+        aria-label={labels.homepageLogo}
       >
-        {initials}
-      </motion.span>
-    </Link>
+        <motion.span
+          className={clsx(
+            // Base styles for text - consumer's Tailwind config provides these utilities
+            "text-3xl font-bold text-[color:var(--vs-text-strong)]",
+            "cursor-pointer transition-colors duration-300 ease-in-out",
+            "hover:text-[color:var(--vs-accent)]", // Hover text color change
+            "inline-block", // Necessary for some transforms to apply correctly
+            textClassName // Consumer-provided classes for font, text color, etc.
+          )}
+          style={{ fontVariantLigatures: "common-ligatures" }} // Optional stylistic choice
+          initial={initialVariant ?? (shouldReduceMotion ? reducedInitial : defaultInitial)}
+          animate={animateVariant ?? (shouldReduceMotion ? reducedAnimate : defaultAnimate)}
+          whileHover={hoverVariant ?? (shouldReduceMotion ? reducedHover : defaultHover)}
+          whileTap={tapVariant ?? (shouldReduceMotion ? undefined : defaultTap)}
+        >
+          {initials}
+        </motion.span>
+      </Link>
+    </EnsureNavBarTheme>
   );
 };
@@ -0,0 +1,110 @@
+// Internal components shared by the desktop and mobile menus to render a menu item's link.
+"use client";
+
+import React from "react";
+import clsx from "clsx"; // Direct dependency (bundled)
+import { ExternalLink } from "lucide-react"; // Peer dependency
+import type { MenuItem } from "./NavBar";
+import { useLinkAdapter } from "./LinkProvider";
+import { useLocale } from "./LocaleProvider";
+
+type IconComponent = React.ComponentType<{ className?: string }>;
+
+/** Whether a menu item icon is a component (e.g. a lucide-react icon) rather than a node. */
+const isIconComponent = (icon: MenuItem["icon"]): icon is IconComponent =>
+  typeof icon === "function" ||
+  // forwardRef / memo components are objects tagged with `$$typeof`, like elements
+  (typeof icon === "object" && icon !== null && !React.isValidElement(icon) && "$$typeof" in icon);
+
+/**
+ * Renders a menu item's icon, name, badge and external-link indicator.
+ * @internal
+ */
+export const MenuItemContent: React.FC<{ item: MenuItem }> = ({ item }) => {
+  const { labels } = useLocale();
+  const { icon, badge } = item;
+
+  return (
+    <span className="inline-flex items-center gap-2">
+      {icon != null && (
+        <span className="inline-flex shrink-0" aria-hidden="true">
+          {isIconComponent(icon)
+            ? React.createElement(icon, { className: "h-[1em] w-[1em]" })
+            : icon}
+        </span>
+      )}
+      <span>{item.name}</span>
+      {badge !== undefined && (
+        <span className="inline-flex min-w-[1.25rem] justify-center rounded-full bg-[color:var(--vs-accent-soft)] px-1.5 text-[0.7em] font-semibold leading-5 text-[color:var(--vs-accent)]">
+          {badge}
+        </span>
+      )}
+      {item.external && (
+        <>
+          <ExternalLink className="h-[0.75em] w-[0.75em] shrink-0 opacity-70" aria-hidden="true" />
+          <span className="sr-only">{labels.opensInNewTab}</span>
+        </>
+      )}
+    </span>
+  );
+};
+
+/**
+ * Props for the MenuItemLink component.
+ * @internal
+ */
+type MenuItemLinkProps = Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, "href"> & {
+  item: MenuItem;
+};
+
+/**
+ * Renders the link for a menu item: through the link adapter, as a plain `<a>` opening a new
+ * tab for `external` items, or as a non-navigable link for `disabled` items, focusable only
+ * through an explicit `tabIndex` (as menubar items are).
+ * Renders `MenuItemContent` unless children are given.
+ * @internal
+ */
+export const MenuItemLink = React.forwardRef<HTMLAnchorElement, MenuItemLinkProps>(
+  function MenuItemLink({ item, children, onClick, className, ...props }, ref) {
+    const { Link } = useLinkAdapter();
+    const content = children ?? <MenuItemContent item={item} />;
+
+    if (item.disabled) {
+      // Without an href the anchor isn't navigable, nor focusable unless given a tabIndex
+      return (
+        <a
+          ref={ref}
+          {...props}
+          role={props.role ?? "link"}
+          aria-disabled="true"
+          aria-current={undefined}
+          className={clsx(className, "opacity-50 cursor-not-allowed")}
+        >
+          {content}
+        </a>
+      );
+    }
+
+    if (item.external) {
+      return (
+        <a
+          ref={ref}
+          {...props}
+          href={item.href ?? "#"}
+          target="_blank"
+          rel="noopener noreferrer"
+          onClick={onClick}
+          className={className}
+        >
+          {content}
+        </a>
+      );
+    }
+
+    return (
+      <Link ref={ref} {...props} href={item.href ?? "#"} onClick={onClick} className={className}>
+        {content}
+      </Link>
+    );
+  }
+);
@@ -1,16 +1,27 @@
 // Internal component used by NavBar for the mobile popover menu.
 "use client";
 
-import React, { useEffect, useRef, useCallback, useState } from "react";
-import { motion, AnimatePresence } from "framer-motion"; // Peer dependency
+import React, { useEffect, useCallback, useState } from "react";
+import { motion, AnimatePresence, useDragControls, type PanInfo } from "framer-motion"; // Peer dependency
 import FocusTrap from "focus-trap-react"; // Direct dependency (bundled)
 import clsx from "clsx"; // Direct dependency (bundled)
-import { X } from "lucide-react"; // Peer dependency
-import Link from "next/link"; // Peer dependency
+import { ChevronDown, X } from "lucide-react"; // Peer dependency
 
 // Import internal components and types
 import { DarkModeToggle } from "./DarkModeToggle";
-import type { MenuItem } from "./NavBar";
+import { MenuItemContent, MenuItemLink } from "./MenuItemLink";
+import { fadeVariants, useShouldReduceMotion } from "./ReducedMotionProvider";
+import { useLocale } from "./LocaleProvider";
+import { resolveThemedValue, useNavBarTheme } from "./NavBarTheme";
+import { useThemeState } from "./ThemeProvider";
+import type { MenuItem, MobileMenuVariant } from "./NavBar";
+import {
+  getMenuItemKey,
+  hasSubmenu,
+  isMenuItemActive,
+  type MenuItemActiveMatcher,
+} from "../utils/menuItems";
+import type { MobileMenuState } from "../hooks/useMobileMenu";
 
 // Import Radix Tooltip components (direct dependency)
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@radix-ui/react-tooltip";
@@ -20,33 +31,36 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@radix
  * @internal
  */
 interface MobileMenuProps {
-  isOpen: boolean;
-  setIsOpen: React.Dispatch<React.SetStateAction<boolean>>;
-  isAnimating: boolean;
-  setIsAnimating: React.Dispatch<React.SetStateAction<boolean>>;
-  /** Ref to the button that triggered the mobile menu, for focus restoration. */
-  triggerRef: React.RefObject<HTMLButtonElement>;
+  /** Open / animating state, focus restoration and prop getters, from `useMobileMenu`. */
+  menu: MobileMenuState;
   menuItems: MenuItem[];
-  /** The ID (without '#') of the currently active section. */
-  activeSectionId?: string | null;
-  /** Unique ID for the popover element, used for ARIA attributes. */
-  popoverId: string;
+  /** Predicate deciding whether an item is active (scrollspy section or current route). */
+  isItemActive: MenuItemActiveMatcher;
   /** Optional CSS classes for the popover container. */
   popoverClassName?: string;
   /** Optional CSS classes for the wrapper of each menu item. */
   itemClassName?: string;
   /** Optional CSS classes for the link element of each menu item. */
   linkClassName?: string;
+  /** How the menu is presented: full-screen reveal, side drawer or bottom sheet. */
+  variant?: MobileMenuVariant;
 }
 
 // --- Animation Variants ---
 const ICON_OFFSET_X = "30px"; // Approx distance of icons from edge
 const ICON_OFFSET_Y = "30px";
 
+/** Custom data for the popover variants: viewport size and text direction */
+type RevealCustom = { width: number; height: number; isRtl: boolean };
+
+/** Circle clip-path centered on the hamburger button, which sits at the inline end of the bar */
+const revealClipPath = ({ width, height, isRtl }: RevealCustom) =>
+  `circle(${Math.max(width, height) * 1.5}px at ${isRtl ? ICON_OFFSET_X : `calc(100% - ${ICON_OFFSET_X})`} ${ICON_OFFSET_Y})`;
+
 /** Popover animation variants */
 const popoverVariants = {
-  hidden: (custom: { width: number; height: number }) => ({
-    clipPath: `circle(${Math.max(custom.width, custom.height) * 1.5}px at calc(100% - ${ICON_OFFSET_X}) ${ICON_OFFSET_Y})`,
+  hidden: (custom: RevealCustom) => ({
+    clipPath: revealClipPath(custom),
     opacity: 0,
     transition: {
       duration: 0.5,
@@ -57,8 +71,8 @@ const popoverVariants = {
       staggerDirection: -1,
     },
   }),
-  visible: (custom: { width: number; height: number }) => ({
-    clipPath: `circle(${Math.max(custom.width, custom.height) * 1.5}px at calc(100% - ${ICON_OFFSET_X}) ${ICON_OFFSET_Y})`,
+  visible: (custom: RevealCustom) => ({
+    clipPath: revealClipPath(custom),
     opacity: 1,
     transition: {
       duration: 0.5,
@@ -71,6 +85,47 @@ const popoverVariants = {
   }),
 };
 
+/** Dimmed overlay behind the drawer and bottom sheet */
+const overlayVariants = {
+  hidden: { opacity: 0, transition: { duration: 0.25, ease: "easeIn" } },
+  visible: { opacity: 1, transition: { duration: 0.25, ease: "easeOut" } },
+};
+
+/** Shared stagger for the drawer and bottom sheet, mirroring the full-screen popover */
+const panelStagger = {
+  hidden: { when: "afterChildren", staggerChildren: 0.05, staggerDirection: -1 },
+  visible: { when: "beforeChildren", delayChildren: 0.05, staggerChildren: 0.07 },
+};
+
+/** Side drawer variants */
+const drawerVariants = (side: "left" | "right") => ({
+  hidden: {
+    x: side === "left" ? "-100%" : "100%",
+    transition: { type: "tween", duration: 0.3, ease: "easeIn", ...panelStagger.hidden },
+  },
+  visible: {
+    x: 0,
+    transition: { type: "spring", damping: 30, stiffness: 300, ...panelStagger.visible },
+  },
+});
+
+/** Bottom sheet variants */
+const sheetVariants = {
+  hidden: {
+    y: "100%",
+    transition: { type: "tween", duration: 0.3, ease: "easeIn", ...panelStagger.hidden },
+  },
+  visible: {
+    y: 0,
+    transition: { type: "spring", damping: 30, stiffness: 300, ...panelStagger.visible },
+  },
+};
+
+/** Downward drag distance (px) past which releasing the bottom sheet closes it */
+const SHEET_CLOSE_OFFSET = 120;
+/** Downward fling velocity (px/s) past which releasing the bottom sheet closes it */
+const SHEET_CLOSE_VELOCITY = 500;
+
 /** Default transition for menu items */
 const defaultItemTransition = { type: "spring", damping: 15, stiffness: 100 };
 /** Diverse animation variants for individual menu items */
@@ -100,11 +155,47 @@ const menuItemVariants = [
     visible: { opacity: 1, x: 0, transition: defaultItemTransition },
   },
 ];
+
+/** Picks the item variants for an index, mirroring horizontal slides in right-to-left layouts */
+const getMenuItemVariants = (index: number, isRtl: boolean) => {
+  const variants = menuItemVariants[index % menuItemVariants.length]!;
+  return isRtl && variants.hidden.x !== undefined
+    ? { ...variants, hidden: { ...variants.hidden, x: -variants.hidden.x } }
+    : variants;
+};
+
+/** Accordion panel variants; children reuse `menuItemVariants` with their own stagger */
+const accordionVariants = {
+  hidden: {
+    height: 0,
+    opacity: 0,
+    transition: { duration: 0.25, ease: "easeIn", staggerChildren: 0.04, staggerDirection: -1 },
+  },
+  visible: {
+    height: "auto",
+    opacity: 1,
+    transition: { duration: 0.3, ease: "easeOut", staggerChildren: 0.06, delayChildren: 0.05 },
+  },
+};
+
+/** Accordion variants under reduced motion: the height changes instantly, the content fades */
+const reducedAccordionVariants = {
+  hidden: {
+    height: 0,
+    opacity: 0,
+    transition: { duration: 0.15, ease: "linear", height: { duration: 0, delay: 0.15 } },
+  },
+  visible: {
+    height: "auto",
+    opacity: 1,
+    transition: { duration: 0.15, ease: "linear", height: { duration: 0 } },
+  },
+};
 // --- End Animation Variants ---
 
 /**
- * Renders the full-screen mobile navigation popover.
- * Includes menu items, dark mode toggle, focus trapping, and animations.
+ * Renders the mobile navigation popover: a full-screen reveal (default), a side drawer or a
+ * draggable bottom sheet. Includes menu items, dark mode toggle, focus trapping, and animations.
  * This component is intended for internal use by the main `NavBar` component.
  *
  * @param props - The props for the MobileMenu.
@@ -112,20 +203,28 @@ const menuItemVariants = [
  * @internal
  */
 export const MobileMenu: React.FC<MobileMenuProps> = ({
-  isOpen,
-  setIsOpen,
-  isAnimating,
-  setIsAnimating,
-  triggerRef,
+  menu,
   menuItems,
-  activeSectionId,
-  popoverId,
+  isItemActive,
   popoverClassName,
   itemClassName,
   linkClassName,
+  variant = "fullscreen",
 }) => {
+  const { isOpen, isAnimating, popoverRef, close } = menu;
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
-  const popoverRef = useRef<HTMLDivElement>(null); // Ref for FocusTrap fallback
+  const sheetDragControls = useDragControls(); // Bottom sheet drags from its handle only
+  const isFullscreen = variant === "fullscreen";
+  const shouldReduceMotion = useShouldReduceMotion();
+  const { labels, dir, isRtl } = useLocale();
+  const navBarTheme = useNavBarTheme();
+  const { resolvedTheme } = useThemeState(); // From the active theme adapter
+
+  // Background gradient stops come from the design tokens (concrete colors, so they can interpolate)
+  const colorScheme = resolvedTheme === "dark" ? "dark" : "light";
+  const flairPrimary = resolveThemedValue(navBarTheme.flairPrimary, colorScheme);
+  const flairSecondary = resolveThemedValue(navBarTheme.flairSecondary, colorScheme);
+  const flairTertiary = resolveThemedValue(navBarTheme.flairTertiary, colorScheme);
 
   // Effect to get window dimensions for circle animation
   useEffect(() => {
@@ -141,56 +240,173 @@ export const MobileMenu: React.FC<MobileMenuProps> = ({
     }
   }, []);
 
-  // Effect to lock body scroll when menu is open
-  useEffect(() => {
-    if (typeof document !== "undefined") {
-      document.body.style.overflow = isOpen ? "hidden" : "";
-      // Cleanup function
-      return () => {
-        document.body.style.overflow = "";
-      };
-    }
-  }, [isOpen]);
-
-  // Effect for 'Escape' key to close menu
-  const handleKeyDown = useCallback(
-    (event: KeyboardEvent) => {
-      if (event.key === "Escape" && isOpen && !isAnimating) {
-        setIsOpen(false);
+  /** Closes the bottom sheet when dragged down far or fast enough. */
+  const handleSheetDragEnd = useCallback(
+    (_event: MouseEvent | TouchEvent | PointerEvent, info: PanInfo) => {
+      if (info.offset.y > SHEET_CLOSE_OFFSET || info.velocity.y > SHEET_CLOSE_VELOCITY) {
+        close();
       }
     },
-    [isOpen, isAnimating, setIsOpen]
+    [close]
   );
 
-  useEffect(() => {
-    if (typeof document !== "undefined") {
-      document.addEventListener("keydown", handleKeyDown);
-      return () => {
-        document.removeEventListener("keydown", handleKeyDown);
-      };
-    }
-  }, [handleKeyDown]);
+  // Reduced motion replaces the reveal / slide-in with a fade in place
+  const panelVariants = shouldReduceMotion
+    ? fadeVariants
+    : variant === "drawer-left" || variant === "drawer-right"
+      ? drawerVariants(variant === "drawer-left" ? "left" : "right")
+      : variant === "bottom-sheet"
+        ? sheetVariants
+        : popoverVariants;
 
-  /** Handles closing the menu, preventing action if animating. */
-  const handleCloseMenu = useCallback(() => {
-    if (!isAnimating) {
-      setIsOpen(false);
-    }
-  }, [isAnimating, setIsOpen]);
-
-  /** Sets `isAnimating` to true when popover animation starts. */
-  const onAnimationStartCallback = useCallback(() => setIsAnimating(true), [setIsAnimating]);
-  /** Sets `isAnimating` to false and restores focus when popover exit animation completes. */
-  const onAnimationCompleteCallback = useCallback(() => {
-    setIsAnimating(false);
-    // Restore focus to the trigger button when the menu is fully closed (after exit animation)
-    if (!isOpen && triggerRef.current) {
-      triggerRef.current.focus();
-    }
-  }, [isOpen, triggerRef, setIsAnimating]);
+  const revealCustom: RevealCustom = { ...dimensions, isRtl };
+
+  const panel = (
+    <motion.div
+      {...menu.getPopoverProps()} // Ref, id for aria-controls, dialog role and animation tracking
+      key="mobile-menu-popover" // Stable key for AnimatePresence
+      dir={dir} // Rendered outside the header, so the direction is set again here
+      custom={revealCustom} // Pass dimensions and direction for variant calculations
+      variants={panelVariants}
+      // The drawer and sheet inherit these states from their overlay wrapper
+      initial={isFullscreen ? "hidden" : undefined}
+      animate={isFullscreen ? "visible" : undefined}
+      exit={isFullscreen ? "hidden" : undefined}
+      // Base styles - consumer's Tailwind provides these
+      className={clsx(
+        "fixed z-40 bg-[color:var(--vs-surface)] backdrop-blur-md overflow-hidden",
+        {
+          "inset-0 h-[100dvh] w-screen": isFullscreen,
+          "inset-y-0 h-[100dvh] w-4/5 max-w-sm shadow-2xl":
+            variant === "drawer-left" || variant === "drawer-right",
+          "left-0": variant === "drawer-left",
+          "right-0": variant === "drawer-right",
+          "inset-x-0 bottom-0 max-h-[85dvh] flex flex-col rounded-t-2xl shadow-2xl":
+            variant === "bottom-sheet",
+        },
+        popoverClassName // Consumer-provided classes
+      )}
+      // Exit completion is handled by onExitComplete on AnimatePresence.
+      // The bottom sheet can be dragged down (from its handle) to close
+      drag={variant === "bottom-sheet" ? "y" : false}
+      dragListener={false}
+      dragControls={sheetDragControls}
+      dragConstraints={{ top: 0, bottom: 0 }}
+      dragElastic={{ top: 0, bottom: 0.6 }}
+      onDragEnd={handleSheetDragEnd}
+    >
+      {variant === "bottom-sheet" && (
+        // Drag handle
+        <div
+          className="flex justify-center pt-3 pb-2 cursor-grab active:cursor-grabbing touch-none"
+          onPointerDown={(event) => sheetDragControls.start(event)}
+          aria-hidden="true"
+        >
+          <span className="h-1.5 w-10 rounded-full bg-[color:var(--vs-border)]" />
+        </div>
+      )}
+      {/* Optional Background Flair - Subtle Animated Gradient */}
+      <motion.div
+        className="absolute inset-0 -z-10 opacity-30 dark:opacity-20 pointer-events-none"
+        style={{
+          background: `linear-gradient(135deg, ${flairPrimary} 0%, ${flairSecondary} 100%)`,
+        }}
+        animate={
+          shouldReduceMotion
+            ? undefined // No looping animation under reduced motion
+            : {
+                background: [
+                  `linear-gradient(135deg, ${flairPrimary} 0%, ${flairSecondary} 100%)`,
+                  `linear-gradient(135deg, ${flairSecondary} 0%, ${flairTertiary} 100%)`,
+                  `linear-gradient(135deg, ${flairTertiary} 0%, ${flairPrimary} 100%)`,
+                ],
+              }
+        }
+        transition={{ duration: 15, repeat: Infinity, repeatType: "reverse", ease: "linear" }}
+      />
+
+      {/* Close Button */}
+      <TooltipProvider delayDuration={100}>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <motion.button
+              {...menu.getCloseButtonProps()}
+              className={clsx(
+                "absolute top-4 z-50 p-2 rounded-md text-[color:var(--vs-text)] hover:bg-[color:var(--vs-control)] focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-[color:var(--vs-focus-ring)]",
+                isRtl ? "left-4" : "right-4", // Inline-end corner
+                { "cursor-not-allowed": isAnimating, "opacity-50": isAnimating } // Visual cue for disabled state
+              )}
+              // Animation for the X button itself
+              initial={
+                shouldReduceMotion ? { opacity: 0 } : { opacity: 0, rotate: -90, scale: 0.5 }
+              }
+              animate={
+                shouldReduceMotion
+                  ? { opacity: 1 }
+                  : { opacity: 1, rotate: 0, scale: 1, transition: { delay: 0.2 } } // Slight delay for X to appear
+              }
+              exit={shouldReduceMotion ? { opacity: 0 } : { opacity: 0, rotate: 90, scale: 0.5 }} // Rotate opposite way on exit
+              whileTap={shouldReduceMotion ? undefined : { scale: 0.9 }}
+              whileHover={shouldReduceMotion ? undefined : { scale: 1.1, rotate: -10 }}
+            >
+              <X className="h-6 w-6" />
+            </motion.button>
+          </TooltipTrigger>
+          <TooltipContent className="bg-[color:var(--vs-tooltip-bg)] text-[color:var(--vs-tooltip-text)] px-2 py-1 rounded text-xs shadow-lg select-none">
+            <p>{labels.closeMenu}</p>
+          </TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+
+      {/* Menu Items & Toggle Container */}
+      <motion.div
+        className={clsx(
+          "flex flex-col items-center overflow-y-auto", // Added scroll for many items
+          isFullscreen && "justify-center h-full pt-16 pb-20 space-y-4",
+          (variant === "drawer-left" || variant === "drawer-right") &&
+            "justify-start h-full pt-20 pb-10 space-y-4",
+          variant === "bottom-sheet" && "pt-8 pb-10 space-y-3"
+        )}
+        // Staggering of children is handled by the panel variants
+      >
+        {menuItems.map((item, index) => (
+          <motion.div
+            key={getMenuItemKey(item)}
+            // Apply one of the diverse animation variants cyclically (items appear with the panel under reduced motion)
+            variants={shouldReduceMotion ? undefined : getMenuItemVariants(index, isRtl)}
+            className={clsx("overflow-hidden w-full text-center", itemClassName)}
+          >
+            {hasSubmenu(item) ? (
+              <MobileMenuSection
+                item={item}
+                isItemActive={isItemActive}
+                getItemProps={menu.getItemProps}
+                linkClassName={linkClassName}
+              />
+            ) : (
+              <MobileMenuLink
+                item={item}
+                isActive={isMenuItemActive(item, isItemActive)}
+                getItemProps={menu.getItemProps}
+                linkClassName={linkClassName}
+              />
+            )}
+          </motion.div>
+        ))}
+        {/* Dark mode toggle */}
+        <motion.div
+          // Apply animation variant similar to menu items
+          variants={shouldReduceMotion ? undefined : getMenuItemVariants(menuItems.length, isRtl)}
+          className="mt-8 pt-4 border-t border-[color:var(--vs-border)] w-4/5 sm:w-1/2 flex justify-center"
+        >
+          <DarkModeToggle />
+        </motion.div>
+      </motion.div>
+    </motion.div>
+  );
 
   return (
-    <AnimatePresence custom={dimensions} mode="wait" onExitComplete={onAnimationCompleteCallback}>
+    <AnimatePresence custom={revealCustom} mode="wait" onExitComplete={menu.onExitComplete}>
       {isOpen && (
         <FocusTrap
           active={isOpen && !isAnimating} // Activate trap when menu is open and not in the middle of its own open/close animation
@@ -205,130 +421,215 @@ export const MobileMenu: React.FC<MobileMenuProps> = ({
             allowOutsideClick: true, // Allows clicks outside to potentially close menu (if app implements that)
             onDeactivate: () => {
               // When trap deactivates (e.g., menu closes)
-              // Focus restoration is handled by onAnimationCompleteCallback for smoother timing
+              // Focus restoration is handled by menu.onExitComplete for smoother timing
             },
           }}
         >
+          {isFullscreen ? (
+            panel
+          ) : (
+            <motion.div
+              key="mobile-menu-overlay" // Stable key for AnimatePresence
+              className="fixed inset-0 z-40"
+              initial="hidden"
+              animate="visible"
+              exit="hidden"
+            >
+              {/* Dimmed overlay - closes the menu on outside click */}
+              <motion.div
+                className="absolute inset-0 bg-[color:var(--vs-overlay)]"
+                variants={overlayVariants}
+                onClick={close}
+                aria-hidden="true"
+              />
+              {panel}
+            </motion.div>
+          )}
+        </FocusTrap>
+      )}
+    </AnimatePresence>
+  );
+};
+
+/**
+ * Props for the MobileMenuLink component.
+ * @internal
+ */
+interface MobileMenuLinkProps {
+  item: MenuItem;
+  isActive: boolean;
+  /** Props closing the menu when the link is activated, from `useMobileMenu`. */
+  getItemProps: MobileMenuState["getItemProps"];
+  linkClassName?: string;
+  /** Renders the smaller style used inside accordion sections. */
+  nested?: boolean;
+}
+
+/**
+ * Renders a single mobile menu link with its animated active indicator dot.
+ * @internal
+ */
+const MobileMenuLink: React.FC<MobileMenuLinkProps> = ({
+  item,
+  isActive,
+  getItemProps,
+  linkClassName,
+  nested = false,
+}) => {
+  const shouldReduceMotion = useShouldReduceMotion();
+  const { isRtl } = useLocale();
+  const isCta = item.variant === "cta";
+
+  return (
+    <MenuItemLink
+      item={item}
+      {...getItemProps(item)} // Closes the menu on item click
+      className={clsx(
+        // Base styles for link - consumer's Tailwind provides these
+        `block px-4 rounded-md font-medium transition-all duration-200 transform hover:scale-105 w-fit mx-auto relative`,
+        nested ? "py-2 text-lg" : "py-3 text-2xl",
+        isCta
+          ? "px-8 rounded-full bg-[color:var(--vs-accent)] text-[color:var(--vs-accent-text)] font-semibold shadow-md" // Call-to-action button
+          : isActive
+            ? "text-[color:var(--vs-accent)] font-semibold" // Active state
+            : "text-[color:var(--vs-text-strong)] hover:bg-[color:var(--vs-accent-soft)]", // Default state
+        linkClassName // Consumer classes
+      )}
+    >
+      <MenuItemContent item={item} />
+      {/* Active indicator dot (call-to-action buttons stand out already) */}
+      {isActive && !isCta && (
+        <motion.span
+          layoutId="mobile-active-dot" // Animate dot between items
+          className={clsx(
+            "absolute top-1/2 -translate-y-1/2 h-2 w-2 bg-[color:var(--vs-accent)] rounded-full",
+            isRtl ? "-right-3 sm:-right-4" : "-left-3 sm:-left-4" // Before the text
+          )}
+          initial={{ opacity: 0, scale: shouldReduceMotion ? 1 : 0 }}
+          animate={{ opacity: 1, scale: 1 }}
+          exit={{ opacity: 0, scale: shouldReduceMotion ? 1 : 0 }}
+        />
+      )}
+    </MenuItemLink>
+  );
+};
+
+/**
+ * Props for the MobileMenuSection component.
+ * @internal
+ */
+interface MobileMenuSectionProps {
+  item: MenuItem & { children: MenuItem[] };
+  isItemActive: MenuItemActiveMatcher;
+  getItemProps: MobileMenuState["getItemProps"];
+  linkClassName?: string;
+}
+
+/**
+ * Renders a menu item with `children` as an expandable accordion section.
+ * Sections containing the active item start expanded.
+ * @internal
+ */
+const MobileMenuSection: React.FC<MobileMenuSectionProps> = ({
+  item,
+  isItemActive,
+  getItemProps,
+  linkClassName,
+}) => {
+  const isActive = isMenuItemActive(item, isItemActive);
+  const [isExpanded, setIsExpanded] = useState(isActive);
+  const panelId = React.useId();
+  const shouldReduceMotion = useShouldReduceMotion();
+  const { labels, isRtl } = useLocale();
+
+  const toggle = (
+    <motion.span
+      className="inline-flex"
+      animate={{ rotate: isExpanded ? 180 : 0 }}
+      transition={{ duration: shouldReduceMotion ? 0 : 0.2 }}
+      aria-hidden="true"
+    >
+      <ChevronDown className="h-5 w-5" />
+    </motion.span>
+  );
+
+  return (
+    <>
+      {item.href ? (
+        <div className="flex items-center justify-center gap-1">
+          <MobileMenuLink
+            item={item}
+            isActive={isActive}
+            getItemProps={getItemProps}
+            linkClassName={linkClassName}
+          />
+          <button
+            type="button"
+            className="p-2 rounded-md text-[color:var(--vs-text)] hover:bg-[color:var(--vs-control)] focus:outline-none focus-visible:ring-2 focus-visible:ring-[color:var(--vs-focus-ring)]"
+            onClick={() => setIsExpanded((expanded) => !expanded)}
+            aria-label={labels.submenu(item.name)}
+            aria-expanded={isExpanded}
+            aria-controls={panelId}
+          >
+            {toggle}
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          className={clsx(
+            "inline-flex items-center gap-2 px-4 py-3 rounded-md text-2xl font-medium transition-colors duration-200 focus:outline-none focus-visible:ring-2 focus-visible:ring-[color:var(--vs-focus-ring)]",
+            isActive
+              ? "text-[color:var(--vs-accent)] font-semibold"
+              : "text-[color:var(--vs-text-strong)] hover:bg-[color:var(--vs-accent-soft)]"
+          )}
+          onClick={() => setIsExpanded((expanded) => !expanded)}
+          aria-expanded={isExpanded}
+          aria-controls={panelId}
+        >
+          <MenuItemContent item={item} />
+          {toggle}
+        </button>
+      )}
+      <AnimatePresence initial={false}>
+        {isExpanded && (
           <motion.div
-            ref={popoverRef}
-            key="mobile-menu-popover" // Stable key for AnimatePresence
-            id={popoverId} // For aria-controls
-            role="dialog" // ARIA role for a dialog
-            aria-modal="true" // Indicates it's a modal dialog
-            aria-label="Mobile Navigation Menu"
-            custom={dimensions} // Pass dimensions for variant calculations
-            variants={popoverVariants}
+            id={panelId}
+            key="accordion-panel"
+            variants={shouldReduceMotion ? reducedAccordionVariants : accordionVariants}
             initial="hidden"
             animate="visible"
             exit="hidden"
-            // Base styles - consumer's Tailwind provides these
-            className={clsx(
-              "fixed inset-0 z-40 h-[100dvh] w-screen bg-white/90 dark:bg-black/90 backdrop-blur-md overflow-hidden",
-              popoverClassName // Consumer-provided classes
-            )}
-            onAnimationStart={onAnimationStartCallback}
-            // onAnimationComplete for *entry* can be set here if needed,
-            // but onExitComplete on AnimatePresence handles exit completion.
+            className="overflow-hidden flex flex-col items-center"
           >
-            {/* Optional Background Flair - Subtle Animated Gradient */}
-            <motion.div
-              className="absolute inset-0 -z-10 opacity-30 dark:opacity-20 pointer-events-none"
-              style={{
-                background:
-                  "linear-gradient(135deg, rgba(99, 102, 241, 0.1) 0%, rgba(168, 85, 247, 0.05) 100%)",
-              }}
-              animate={{
-                background: [
-                  "linear-gradient(135deg, rgba(99, 102, 241, 0.1) 0%, rgba(168, 85, 247, 0.05) 100%)",
-                  "linear-gradient(135deg, rgba(168, 85, 247, 0.05) 0%, rgba(236, 72, 153, 0.1) 100%)",
-                  "linear-gradient(135deg, rgba(236, 72, 153, 0.1) 0%, rgba(99, 102, 241, 0.1) 100%)",
-                ],
-              }}
-              transition={{ duration: 15, repeat: Infinity, repeatType: "reverse", ease: "linear" }}
-            />
-
-            {/* Close Button */}
-            <TooltipProvider delayDuration={100}>
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <motion.button
-                    className={clsx(
-                      "absolute top-4 right-4 z-50 p-2 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-200/50 dark:hover:bg-gray-800/50 focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-indigo-500",
-                      { "cursor-not-allowed": isAnimating, "opacity-50": isAnimating } // Visual cue for disabled state
-                    )}
-                    onClick={handleCloseMenu}
-                    disabled={isAnimating}
-                    aria-label="Close menu"
-                    // Animation for the X button itself
-                    initial={{ opacity: 0, rotate: -90, scale: 0.5 }}
-                    animate={{ opacity: 1, rotate: 0, scale: 1, transition: { delay: 0.2 } }} // Slight delay for X to appear
-                    exit={{ opacity: 0, rotate: 90, scale: 0.5 }} // Rotate opposite way on exit
-                    whileTap={{ scale: 0.9 }}
-                    whileHover={{ scale: 1.1, rotate: -10 }}
-                  >
-                    <X className="h-6 w-6" />
-                  </motion.button>
-                </TooltipTrigger>
-                <TooltipContent className="bg-gray-900 text-white px-2 py-1 rounded text-xs shadow-lg dark:bg-gray-100 dark:text-gray-900 select-none">
-                  <p>Close Menu</p>
-                </TooltipContent>
-              </Tooltip>
-            </TooltipProvider>
-
-            {/* Menu Items & Toggle Container */}
-            <motion.div
-              className="flex flex-col items-center justify-center h-full pt-16 pb-20 space-y-4 overflow-y-auto" // Added scroll for many items
-              // Staggering of children is handled by popoverVariants
-            >
-              {menuItems.map((item, index) => {
-                const isActive = activeSectionId ? `#${activeSectionId}` === item.href : false;
-                return (
-                  <motion.div
-                    key={item.name}
-                    // Apply one of the diverse animation variants cyclically
-                    variants={menuItemVariants[index % menuItemVariants.length]}
-                    className={clsx("overflow-hidden w-full text-center", itemClassName)}
-                  >
-                    <Link
-                      href={item.href}
-                      onClick={handleCloseMenu} // Close menu on item click
-                      className={clsx(
-                        // Base styles for link - consumer's Tailwind provides these
-                        `block px-4 py-3 rounded-md text-2xl font-medium transition-all duration-200 transform hover:scale-105 w-fit mx-auto relative`,
-                        isActive
-                          ? "text-indigo-600 dark:text-indigo-400 font-semibold" // Active state
-                          : "text-gray-800 dark:text-gray-200 hover:bg-indigo-100/30 dark:hover:bg-indigo-900/20", // Default state
-                        linkClassName // Consumer classes
-                      )}
-                      aria-current={isActive ? "page" : undefined}
-                    >
-                      {item.name}
-                      {/* Active indicator dot */}
-                      {isActive && (
-                        <motion.span
-                          layoutId="mobile-active-dot" // Animate dot between items
-                          className="absolute -left-3 sm:-left-4 top-1/2 -translate-y-1/2 h-2 w-2 bg-indigo-500 rounded-full"
-                          initial={{ opacity: 0, scale: 0 }}
-                          animate={{ opacity: 1, scale: 1 }}
-                          exit={{ opacity: 0, scale: 0 }}
-                        />
-                      )}
-                    </Link>
-                  </motion.div>
-                );
-              })}
-              {/* Dark mode toggle */}
+            {item.children.map((child, index) => (
               <motion.div
-                // Apply animation variant similar to menu items
-                variants={menuItemVariants[menuItems.length % menuItemVariants.length]}
-                className="mt-8 pt-4 border-t border-gray-300/50 dark:border-gray-700/50 w-4/5 sm:w-1/2 flex justify-center"
+                key={getMenuItemKey(child)}
+                // Same staggered motion as the top-level items
+                variants={shouldReduceMotion ? undefined : getMenuItemVariants(index, isRtl)}
+                className="w-full text-center"
               >
-                <DarkModeToggle />
+                {hasSubmenu(child) ? (
+                  <MobileMenuSection
+                    item={child}
+                    isItemActive={isItemActive}
+                    getItemProps={getItemProps}
+                    linkClassName={linkClassName}
+                  />
+                ) : (
+                  <MobileMenuLink
+                    item={child}
+                    isActive={isMenuItemActive(child, isItemActive)}
+                    getItemProps={getItemProps}
+                    linkClassName={linkClassName}
+                    nested
+                  />
+                )}
               </motion.div>
-            </motion.div>
+            ))}
           </motion.div>
-        </FocusTrap>
-      )}
-    </AnimatePresence>
+        )}
+      </AnimatePresence>
+    </>
   );
 };
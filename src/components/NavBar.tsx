@@ -1,35 +1,162 @@
 "use client";
 
-import React, { useState, useEffect, useRef, useMemo, useCallback } from "react";
-import {
-  motion,
-  useScroll,
-  useMotionValueEvent,
-  useTransform,
-  AnimatePresence,
-} from "framer-motion"; // Peer dependency
+import React, {
+  useState,
+  useRef,
+  useMemo,
+  useCallback,
+  useImperativeHandle,
+  forwardRef,
+} from "react";
+import { motion, AnimatePresence } from "framer-motion"; // Peer dependency
 import clsx from "clsx"; // Direct dependency (bundled)
-import { useTheme } from "next-themes"; // Peer dependency
 import { Menu as MenuIcon } from "lucide-react"; // Peer dependency
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@radix-ui/react-tooltip"; // Bundled dependency
 
 // Import internal components using relative paths
 import { Logo, LogoProps } from "./Logo";
 import { DarkModeToggle } from "./DarkModeToggle";
-import { DesktopMenuPart } from "./DesktopMenu"; // Internal, renamed
+import { DesktopMenubar, DesktopMenuMeasurer, DesktopMenuPart } from "./DesktopMenu"; // Internal, renamed
 import { MobileMenu } from "./MobileMenu"; // Internal
+import { LinkProvider, useLinkAdapter, type LinkAdapter } from "./LinkProvider";
+import { NavBarThemeProvider, type NavBarTheme } from "./NavBarTheme";
+import { ReducedMotionProvider, type ReducedMotionPolicy } from "./ReducedMotionProvider";
+import { LocaleProvider, useLocale, type Direction, type NavBarLabels } from "./LocaleProvider";
 // Import hook
-import { useScrollspy, ScrollspyOptions } from "../hooks/useScrollspy";
+import type { ScrollspyOptions } from "../hooks/useScrollspy";
+import { usePriorityPlus } from "../hooks/usePriorityPlus";
+import { useNavBar } from "../hooks/useNavBar";
+import { splitMenuItems } from "../utils/menuItems";
 
 // --- Prop Types ---
+/**
+ * Desktop arrangement of the logo and menu items.
+ * - `"centered"`: items split either side of a centered logo (by count, `splitIndex` or item `placement`).
+ * - `"logo-left"`: logo on the left, items and the dark mode toggle on the right.
+ * - `"logo-left-centered-links"`: logo on the left, items centered, dark mode toggle on the right.
+ */
+export type NavBarLayout = "centered" | "logo-left" | "logo-left-centered-links";
+
+/**
+ * Semantics of the desktop menu.
+ * - `"menubar"`: ARIA menubar with a single tab stop; Left / Right and Home / End move across
+ *   all items (both halves of the centered layout), type-ahead jumps to an item, and
+ *   Down / Enter open submenus.
+ * - `"list"`: plain lists of links inside the header's navigation landmark, navigated with Tab;
+ *   submenu toggles are disclosure buttons. Generally the better fit for site navigation.
+ */
+export type MenuSemantics = "menubar" | "list";
+
+/**
+ * Presentation of the mobile menu.
+ * - `"fullscreen"`: full-screen circular reveal from the hamburger button.
+ * - `"drawer-left"` / `"drawer-right"`: a slide-in drawer over a dimmed overlay that closes on outside click.
+ * - `"bottom-sheet"`: a sheet sliding up from the bottom, closable by dragging its handle down.
+ */
+export type MobileMenuVariant = "fullscreen" | "drawer-left" | "drawer-right" | "bottom-sheet";
+
+/**
+ * How a menu item's `href` is matched against the current pathname to mark it active.
+ * - `"exact"`: the pathname must equal the item's path (trailing slashes ignored).
+ * - `"prefix"`: the pathname must equal the item's path or be nested below it (e.g. `/blog/post-1` for `/blog`).
+ * - A function receiving the current pathname and the item, returning whether it is active.
+ */
+export type RouteMatch = "exact" | "prefix" | ((pathname: string, item: MenuItem) => boolean);
+
+/**
+ * When the bar hides while scrolling down (it reappears when scrolling up).
+ * - `"never"`: scrolling never hides the bar (scrolling up still reveals it after `hide()`).
+ * - `"always"`: hides on any downward scroll (hiding starts at offset 0 unless `startOffset` is set).
+ * - `"after-threshold"`: hides only past `scrollThreshold + scrollTransitionRange` (or `startOffset`).
+ * - `"mobile-only"`: like `"after-threshold"`, but only in the mobile layout (see `mobileBreakpoint`).
+ */
+export type HideOnScrollMode = "never" | "always" | "after-threshold" | "mobile-only";
+
+/**
+ * Fine-tuning for hide-on-scroll.
+ */
+export interface HideOnScrollOptions {
+  /**
+   * Pixels scrolled in a single scroll event before the bar hides (down) or reappears (up).
+   * @default 10
+   */
+  sensitivity?: number;
+  /**
+   * Scroll offset (in pixels) past which the bar may hide.
+   * @default 0 for `"always"`, otherwise `scrollThreshold + scrollTransitionRange`
+   */
+  startOffset?: number;
+  /**
+   * On desktop (hover-capable, desktop layout), temporarily reveal the hidden bar when the pointer
+   * moves near the top edge; it hides again once the pointer leaves the bar.
+   * `true` uses a 48px zone; a number sets the zone height in pixels.
+   * @default false
+   */
+  revealOnHover?: boolean | number;
+}
+
 /**
  * Defines the structure for a navigation menu item.
  */
 export interface MenuItem {
+  /**
+   * Stable identifier used for React keys and animation `layoutId`s.
+   * Set it when two items share a label. Defaults to one derived from `name` and `href`.
+   */
+  id?: string;
   /** The display name of the menu item. */
   name: string;
-  /** The URL or hash link for the menu item (e.g., '/about' or '#contact'). */
-  href: string;
+  /**
+   * The URL or hash link for the menu item (e.g., '/about', '#contact', or '/#contact' for a
+   * section on another route, which scrolls in place when already on that route).
+   * Optional for items with `children`, whose trigger opens the submenu instead of navigating.
+   */
+  href?: string;
+  /**
+   * Optional nested items. On desktop they render in an animated dropdown (or a mega-menu
+   * when any child defines a `group`); on mobile they render as an expandable accordion section.
+   */
+  children?: MenuItem[];
+  /** Optional group heading for a child item. Children sharing a heading are rendered together. */
+  group?: string;
+  /** Optional short description shown beneath a child item's name in the desktop submenu panel. */
+  description?: string;
+  /**
+   * Overrides the NavBar's `routeMatch` mode for this item.
+   * Use a function for custom rules, e.g. marking `/blog` active on `/articles/*`.
+   */
+  match?: RouteMatch;
+  /**
+   * Side of the centered logo this top-level item is placed on in the `"centered"` layout.
+   * Overrides the split computed from `splitIndex`.
+   */
+  placement?: "left" | "right";
+  /**
+   * Icon shown before the name: an element (e.g. `<Home className="h-4 w-4" />`) or an icon
+   * component such as a lucide-react icon, rendered at the item's text size.
+   */
+  icon?: React.ReactNode | React.ComponentType<{ className?: string }>;
+  /** Badge shown after the name, e.g. an unread count or `"New"`. */
+  badge?: number | string;
+  /**
+   * Opens the link in a new tab with `rel="noopener noreferrer"` and an external-link indicator.
+   * External links bypass the link adapter and render a plain `<a>`.
+   */
+  external?: boolean;
+  /** Renders the item as unavailable: visible but not navigable or focusable. */
+  disabled?: boolean;
+  /**
+   * `"cta"` renders a prominent call-to-action button (e.g. "Sign up") in the desktop bar and
+   * the mobile menu.
+   * @default "default"
+   */
+  variant?: "default" | "cta";
+  /**
+   * With `priorityPlus`, top-level items with a higher priority stay in the desktop bar longer;
+   * among equal priorities, later items move into the "More" dropdown first.
+   * @default 0
+   */
+  priority?: number;
 }
 
 // Re-export related types for consumer convenience
@@ -91,8 +218,175 @@ export interface NavBarProps {
    * `rootMargin` for the scrollspy IntersectionObserver. Defines the viewport bounds for intersection.
    */
   scrollspyRootMargin?: string;
+  /**
+   * How non-hash menu items are matched against the current pathname to mark them active.
+   * Individual items can override this with their own `match`.
+   * Scrollspy highlighting takes precedence while one of the menu's hash sections is active.
+   * @default "exact"
+   */
+  routeMatch?: RouteMatch;
+  /**
+   * The current pathname used for route matching.
+   * Defaults to the pathname reported by the link adapter's `usePathname`.
+   */
+  pathname?: string;
+  /**
+   * Whether to scroll to the section named in the URL hash after navigating to a new route,
+   * so cross-page section links like '/#services' land on their section once it renders.
+   * @default true
+   */
+  scrollToHashOnNavigate?: boolean;
+  /**
+   * Whether in-page section links smoothly scroll their section into view below the bar,
+   * instead of the browser's jump. The mobile menu finishes closing first; focus then moves
+   * to the section and the URL hash is updated. Under reduced motion the scroll is instant.
+   * @default true
+   */
+  smoothScroll?: boolean;
+  /**
+   * Extra space (px) left between the bar and a section scrolled into view,
+   * on top of the bar's own height.
+   * @default 0
+   */
+  scrollOffset?: number;
+  /**
+   * Reflect the active scrollspy section in the URL hash while scrolling, using
+   * `history.replaceState` (no history entries, no router navigation). The section named by
+   * the hash on load is active until scrollspy resolves one, and back / forward hash changes
+   * scroll to their section.
+   * @default false
+   */
+  syncHash?: boolean;
+  /**
+   * Link adapter used for all links inside the NavBar (e.g. `nextLinkAdapter` from
+   * `@venkatasudha/components/next`). Defaults to the nearest `LinkProvider`, or plain `<a>` elements.
+   */
+  linkAdapter?: LinkAdapter;
+  /**
+   * Desktop arrangement of the logo and menu items. The mobile layout is the same for all variants.
+   * @default "centered"
+   */
+  layout?: NavBarLayout;
+  /**
+   * For the `"centered"` layout, the number of items placed left of the logo.
+   * Items with an explicit `placement` ignore it.
+   * @default Math.ceil(menuItems.length / 2)
+   */
+  splitIndex?: number;
+  /**
+   * Semantics and keyboard model of the desktop menu: an ARIA menubar, or a list of links.
+   * @default "menubar"
+   */
+  menuSemantics?: MenuSemantics;
+  /**
+   * Priority-plus desktop menu: items that don't fit the available width move into a trailing
+   * "More" dropdown, lowest `priority` first, re-measured as the bar resizes. The hamburger
+   * menu replaces the desktop menu only when not even one item fits beside "More".
+   * @default false
+   */
+  priorityPlus?: boolean;
+  /**
+   * Where the bar switches between its mobile and desktop layouts: the viewport width (px)
+   * at which the desktop layout starts, or a media query matching the mobile layout
+   * (e.g. `"(max-width: 1023px)"`). Match it to your Tailwind `screens` config.
+   * Only the active layout is mounted; until hydration both render, switched at `md` by CSS.
+   * @default 768
+   */
+  mobileBreakpoint?: number | string;
+  /**
+   * Presentation of the mobile menu. All variants keep focus trapping, Escape handling,
+   * scroll locking and focus restoration.
+   * @default "fullscreen"
+   */
+  mobileMenuVariant?: MobileMenuVariant;
+  /**
+   * Design token overrides (colors, glass background, blur, shadow, tooltip colors), merged over the
+   * nearest `NavBarThemeProvider`. Animated colors (glass, glow, flair) must be concrete colors.
+   */
+  theme?: Partial<NavBarTheme>;
+  /**
+   * Motion policy for the NavBar and its parts. `"user"` follows `prefers-reduced-motion`;
+   * under reduced motion, slides, springs and looping effects become fades or instant changes.
+   * Defaults to the nearest `ReducedMotionProvider`'s policy (`"user"` without one).
+   */
+  reducedMotion?: ReducedMotionPolicy;
+  /**
+   * Translated labels for every user-facing and ARIA string, merged over the nearest
+   * `LocaleProvider`'s labels (English by default).
+   */
+  labels?: Partial<NavBarLabels>;
+  /**
+   * Text direction. `"rtl"` mirrors the layout, the item slide-in directions and the mobile
+   * menu reveal origin. Defaults to the nearest `LocaleProvider`'s direction.
+   */
+  dir?: Direction;
+  /**
+   * Controlled open state of the mobile menu. When provided, the menu follows this value and
+   * requests changes (hamburger, close button, Escape, outside click) through `onMobileMenuOpenChange`.
+   */
+  mobileMenuOpen?: boolean;
+  /** Called when the mobile menu asks to open or close. */
+  onMobileMenuOpenChange?: (open: boolean) => void;
+  /**
+   * Controlled hidden state of the bar. When provided, it overrides hide-on-scroll (e.g. `false`
+   * keeps the bar visible while a modal is open); scroll changes are still reported through `onHiddenChange`.
+   */
+  hidden?: boolean;
+  /** Called when hide-on-scroll (or the ref handle) asks to hide or show the bar. */
+  onHiddenChange?: (hidden: boolean) => void;
+  /**
+   * Scrollable element the page content scrolls within (e.g. a dashboard's main panel) instead
+   * of the window. Drives hide-on-scroll, the glass background transition and scrollspy, and
+   * makes the bar `position: sticky` at the top of the container instead of fixed to the viewport.
+   */
+  scrollContainerRef?: React.RefObject<HTMLElement>;
+  /**
+   * When the bar hides while scrolling down.
+   * @default "after-threshold"
+   */
+  hideOnScroll?: HideOnScrollMode;
+  /** Sensitivity, start offset and hover-reveal settings for hide-on-scroll. */
+  hideOnScrollOptions?: HideOnScrollOptions;
+  /**
+   * Called when the bar actually becomes visible or hidden (including hover reveals),
+   * e.g. to move sticky sub-headers in sync.
+   */
+  onVisibilityChange?: (visible: boolean) => void;
 }
 
+/**
+ * Imperative handle exposed through the NavBar's `ref`.
+ */
+export interface NavBarHandle {
+  /** Opens the mobile menu. Ignored while the menu is animating. */
+  openMenu: () => void;
+  /** Closes the mobile menu. Ignored while the menu is animating. */
+  closeMenu: () => void;
+  /** Shows the bar if it was hidden on scroll. */
+  show: () => void;
+  /** Hides the bar until the user scrolls up or back to the top (or `show` is called). */
+  hide: () => void;
+  /** Whether the mobile menu is currently playing its open / close animation. */
+  readonly isAnimating: boolean;
+}
+
+// --- Animation Variants ---
+/** Hide-on-scroll variants: the header slides up out of view. */
+const headerVariants = {
+  visible: { y: 0, opacity: 1 },
+  hidden: { y: "-110%", opacity: 0 },
+};
+
+/** Reduced motion hide-on-scroll: the header fades, then moves out of view without animating. */
+const reducedHeaderVariants = {
+  visible: { y: 0, opacity: 1, transition: { duration: 0.2, ease: "linear", y: { duration: 0 } } },
+  hidden: {
+    opacity: 0,
+    transition: { duration: 0.2, ease: "linear" },
+    transitionEnd: { y: "-110%" },
+  },
+};
+
 // --- Component Implementation ---
 
 /**
@@ -106,258 +400,402 @@ export interface NavBarProps {
  * ```tsx
  * const menuItems = [{ name: "Home", href: "#home" }, { name: "About", href: "#about" }];
  * <NavBar menuItems={menuItems} logoProps={{ initials: "MySite" }} />
+ *
+ * // Driving the bar from elsewhere (e.g. an onboarding tour)
+ * const navBarRef = useRef<NavBarHandle>(null);
+ * <NavBar ref={navBarRef} menuItems={menuItems} />
+ * navBarRef.current?.openMenu();
  * ```
  */
-export const NavBar: React.FC<NavBarProps> = ({
-  menuItems,
-  logoComponent,
-  logoProps,
-  darkModeToggleComponent,
-  className,
-  containerClassName,
-  mobilePopoverClassName,
-  desktopLinkClassName,
-  mobileItemClassName,
-  mobileLinkClassName,
-  scrollThreshold = 0,
-  scrollTransitionRange = 100,
-  enableScrollspy = true,
-  scrollspyOptions,
-  scrollspyRootMargin, // Kept for backward compatibility if someone uses it, but options is preferred
-}) => {
-  const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
-  const [isHidden, setIsHidden] = useState(false); // For hide-on-scroll
-  const [isAnimating, setIsAnimating] = useState(false); // For mobile menu open/close animation
-  const { resolvedTheme } = useTheme(); // From next-themes
-  const mobileMenuTriggerRef = useRef<HTMLButtonElement>(null); // Ref for hamburger button
-  const { scrollY } = useScroll(); // Framer Motion scroll hook
+export const NavBar = forwardRef<NavBarHandle, NavBarProps>(function NavBar(
+  {
+    menuItems,
+    logoComponent,
+    logoProps,
+    darkModeToggleComponent,
+    className,
+    containerClassName,
+    mobilePopoverClassName,
+    desktopLinkClassName,
+    mobileItemClassName,
+    mobileLinkClassName,
+    scrollThreshold = 0,
+    scrollTransitionRange = 100,
+    enableScrollspy = true,
+    scrollspyOptions,
+    scrollspyRootMargin, // Kept for backward compatibility if someone uses it, but options is preferred
+    routeMatch = "exact",
+    pathname: pathnameProp,
+    scrollToHashOnNavigate = true,
+    smoothScroll = true,
+    scrollOffset = 0,
+    syncHash = false,
+    linkAdapter: linkAdapterProp,
+    layout = "centered",
+    splitIndex,
+    menuSemantics = "menubar",
+    priorityPlus = false,
+    mobileBreakpoint,
+    mobileMenuVariant = "fullscreen",
+    theme: themeProp,
+    reducedMotion,
+    labels: labelsProp,
+    dir: dirProp,
+    mobileMenuOpen,
+    onMobileMenuOpenChange,
+    hidden,
+    onHiddenChange,
+    scrollContainerRef,
+    hideOnScroll = "after-threshold",
+    hideOnScrollOptions,
+    onVisibilityChange,
+  },
+  ref
+) {
+  const { labels, dir, isRtl } = useLocale({ labels: labelsProp, dir: dirProp });
+  const barRef = useRef<HTMLDivElement>(null); // Measured by priority-plus mode
+  const startSlotRef = useRef<HTMLDivElement>(null);
+  const endSlotRef = useRef<HTMLDivElement>(null);
+  const measureRef = useRef<HTMLDivElement>(null);
 
-  // Memoize item IDs for scrollspy to prevent unnecessary re-renders of useScrollspy
-  const scrollspyItemIds = useMemo(
-    () =>
-      enableScrollspy
-        ? menuItems
-            .map((item) => (item.href.startsWith("#") ? item.href.substring(1) : "")) // Get ID part
-            .filter((id) => id) // Filter out empty strings (non-hash links)
-        : [],
-    [menuItems, enableScrollspy]
-  );
+  const contextLinkAdapter = useLinkAdapter();
+  const linkAdapter = linkAdapterProp ?? contextLinkAdapter;
+  // Set by priority-plus when not even one item fits, so the hamburger menu takes over
+  const [isDesktopMenuCollapsed, setIsDesktopMenuCollapsed] = useState(false);
 
   // Determine scrollspy options, prioritizing the full options object
-  const effectiveScrollspyOptions = useMemo(() => {
-    if (scrollspyOptions) return scrollspyOptions;
-    if (scrollspyRootMargin) return { rootMargin: scrollspyRootMargin };
-    return undefined; // Let useScrollspy use its defaults
-  }, [scrollspyOptions, scrollspyRootMargin]);
-
-  const activeSectionId = useScrollspy(scrollspyItemIds, effectiveScrollspyOptions);
-
-  // Scroll Hide/Show Logic for the entire NavBar
-  useMotionValueEvent(scrollY, "change", (latest) => {
-    const previous = scrollY.getPrevious() ?? 0;
-    const diff = latest - previous;
-    // Calculate the point at which hiding can start (after background transition is mostly complete)
-    const effectiveHideStartThreshold = scrollThreshold + scrollTransitionRange;
-    const scrollDirectionChangeSensitivity = 10; // How many pixels to scroll before changing hide/show state
+  const effectiveScrollspyOptions = useMemo(
+    () =>
+      scrollspyOptions ?? (scrollspyRootMargin ? { rootMargin: scrollspyRootMargin } : undefined),
+    [scrollspyOptions, scrollspyRootMargin]
+  );
 
-    if (latest > effectiveHideStartThreshold && diff > scrollDirectionChangeSensitivity) {
-      setIsHidden(true); // Scrolling down past threshold
-    } else if (diff < -scrollDirectionChangeSensitivity || latest <= effectiveHideStartThreshold) {
-      setIsHidden(false); // Scrolling up or near top
-    }
+  // Scroll, hide-on-scroll, scrollspy, layout and mobile menu behaviour
+  const navBar = useNavBar({
+    menuItems,
+    scrollThreshold,
+    scrollTransitionRange,
+    enableScrollspy,
+    scrollspyOptions: effectiveScrollspyOptions,
+    routeMatch,
+    pathname: pathnameProp,
+    scrollToHashOnNavigate,
+    smoothScroll,
+    scrollOffset,
+    syncHash,
+    linkAdapter,
+    mobileBreakpoint,
+    forceMobileLayout: priorityPlus && isDesktopMenuCollapsed,
+    theme: themeProp,
+    reducedMotion,
+    labels: labelsProp,
+    mobileMenuOpen,
+    onMobileMenuOpenChange,
+    hidden,
+    onHiddenChange,
+    scrollContainerRef,
+    hideOnScroll,
+    hideOnScrollOptions,
+    onVisibilityChange,
   });
+  const { isItemActive, isLayoutKnown, isMobileLayout, shouldReduceMotion, mobileMenu } = navBar;
 
-  // Smooth Background Transition Logic based on scrollY
-  const scrollRangeForBgTransition: [number, number] = [
-    scrollThreshold,
-    scrollThreshold + scrollTransitionRange,
-  ];
-  // Define start/end colors for light and dark themes (using rgba for opacity)
-  const lightBgStart = "rgba(255, 255, 255, 0)";
-  const lightBgEnd = "rgba(255, 255, 255, 0.75)"; // Glassy white
-  const darkBgStart = "rgba(17, 24, 39, 0)"; // Matches Tailwind's gray-900 for dark theme start
-  const darkBgEnd = "rgba(17, 24, 39, 0.75)"; // Glassy dark gray
+  // Priority-plus: keep the items that fit each desktop menu slot, the rest go into "More"
+  const menuSlotRefs = useMemo(
+    () => (layout === "centered" ? [startSlotRef, endSlotRef] : [endSlotRef]),
+    [layout]
+  );
+  const splitDesktopMenuItems = useCallback(
+    (items: MenuItem[]) => (layout === "centered" ? splitMenuItems(items, splitIndex) : [items]),
+    [layout, splitIndex]
+  );
+  const { visibleItems: desktopMenuItems, overflowItems } = usePriorityPlus(navBar.menuItems, {
+    enabled: priorityPlus && isLayoutKnown && !navBar.isMobileViewport,
+    barRef,
+    slotRefs: menuSlotRefs,
+    measureRef,
+    split: splitDesktopMenuItems,
+    isCollapsed: isDesktopMenuCollapsed,
+    onCollapsedChange: setIsDesktopMenuCollapsed,
+  });
 
-  // Select colors based on the current resolved theme
-  const baseBgColor = resolvedTheme === "dark" ? darkBgStart : lightBgStart;
-  const endBgColor = resolvedTheme === "dark" ? darkBgEnd : lightBgEnd;
+  const isAnimatingRef = useRef(mobileMenu.isAnimating); // Read by the imperative handle
+  isAnimatingRef.current = mobileMenu.isAnimating;
 
-  // Framer Motion `useTransform` for smooth style changes
-  const backgroundColor = useTransform(
-    scrollY,
-    scrollRangeForBgTransition,
-    [baseBgColor, endBgColor],
-    { clamp: true }
+  useImperativeHandle(
+    ref,
+    () => ({
+      openMenu: mobileMenu.open,
+      closeMenu: mobileMenu.close,
+      show: navBar.show,
+      hide: navBar.hide,
+      get isAnimating() {
+        return isAnimatingRef.current;
+      },
+    }),
+    [mobileMenu.open, mobileMenu.close, navBar.show, navBar.hide]
   );
-  const backdropFilter = useTransform(
-    scrollY,
-    scrollRangeForBgTransition,
-    ["blur(0px)", "blur(10px)"],
-    { clamp: true }
-  ); // Glassmorphism blur
-  const borderOpacity = useTransform(scrollY, scrollRangeForBgTransition, [0, 0.08], {
-    clamp: true,
-  }); // Subtle border
-  const shadowOpacity = useTransform(scrollY, scrollRangeForBgTransition, [0, 1], { clamp: true }); // Shadow for depth
 
-  // Effect to close mobile menu if window resizes to desktop width
-  useEffect(() => {
-    const handleResize = () => {
-      if (typeof window !== "undefined" && window.innerWidth >= 768 && isMobileMenuOpen) {
-        // Tailwind 'md' breakpoint
-        setIsMobileMenuOpen(false);
-        setIsAnimating(false); // Reset animation state
-      }
-    };
-    if (typeof window !== "undefined") {
-      window.addEventListener("resize", handleResize);
-      return () => window.removeEventListener("resize", handleResize);
-    }
-  }, [isMobileMenuOpen]);
+  // Split menu items for the centered logo layout on desktop
+  const [leftMenuItems, rightMenuItems] = splitMenuItems(desktopMenuItems, splitIndex);
 
-  /** Opens the mobile menu if not currently animating. */
-  const handleOpenMenu = useCallback(() => {
-    if (!isAnimating) {
-      setIsMobileMenuOpen(true);
-    }
-  }, [isAnimating]);
+  // Only the active layout is mounted; before hydration both are, and CSS picks one at `md`
+  const showDesktopLayout = !isLayoutKnown || !isMobileLayout;
+  const showMobileLayout = !isLayoutKnown || isMobileLayout;
+  const desktopSectionClassName = clsx(
+    isLayoutKnown ? "flex" : "hidden md:flex",
+    "flex-1 items-center justify-between w-full"
+  );
+  // Priority-plus slots take the free space whatever their content, so it can be measured
+  const menuSlotClassName = clsx("flex justify-end", priorityPlus && "flex-1 min-w-0");
 
-  // Generate a unique ID for ARIA controls (useful if multiple NavBars on a page, though unlikely)
-  const mobilePopoverId = React.useId
-    ? React.useId()
-    : "rk-navbar-mobile-popover-" + Math.random().toString(36).substr(2, 9);
-
-  // Split menu items for the centered logo layout on desktop
-  const midPoint = Math.ceil(menuItems.length / 2);
-  const leftMenuItems = menuItems.slice(0, midPoint);
-  const rightMenuItems = menuItems.slice(midPoint);
+  const logo = logoComponent ? logoComponent : <Logo {...logoProps} />;
+  const darkModeToggle = darkModeToggleComponent ? darkModeToggleComponent : <DarkModeToggle />;
 
   return (
-    <TooltipProvider delayDuration={100}>
-      {" "}
-      {/* Context for all tooltips within NavBar */}
-      <motion.header
-        role="navigation" // ARIA role for navigation landmark
-        aria-label="Main Navigation"
-        variants={{ visible: { y: 0, opacity: 1 }, hidden: { y: "-110%", opacity: 0 } }}
-        animate={isHidden ? "hidden" : "visible"}
-        transition={{ duration: 0.4, ease: "easeInOut" }}
-        // Base styles - consumer's Tailwind provides these
-        className={clsx("fixed top-0 left-0 right-0 z-30", className)}
-        // Apply animated styles directly
-        style={{
-          backgroundColor,
-          backdropFilter,
-          WebkitBackdropFilter: backdropFilter, // For Safari compatibility
-        }}
-      >
-        {/* Animated Border */}
-        <motion.div
-          className="absolute inset-x-0 bottom-0 h-px bg-gray-300 dark:bg-gray-700 pointer-events-none" // Prevent interaction
-          style={{ opacity: borderOpacity }}
-        />
-        {/* Animated Shadow */}
-        <motion.div
-          className="absolute inset-0 -z-10 shadow-md dark:shadow-lg pointer-events-none" // Behind content, no interaction
-          style={{ opacity: shadowOpacity }}
-        />
-
-        <div className={clsx("container mx-auto px-4 sm:px-6 lg:px-8", containerClassName)}>
-          <div className="flex justify-between items-center h-16 md:h-20">
-            {" "}
-            {/* Standard navbar height */}
-            {/* === DESKTOP NAVIGATION === */}
-            <div className="hidden md:flex flex-1 items-center justify-between w-full">
-              {/* Left Menu Section */}
-              <div className="flex-1 flex justify-start">
-                <DesktopMenuPart
-                  menuItems={leftMenuItems}
-                  activeSectionId={activeSectionId}
-                  linkClassName={desktopLinkClassName}
-                  direction="left"
+    <LinkProvider adapter={linkAdapter}>
+      <NavBarThemeProvider theme={themeProp}>
+        <ReducedMotionProvider reducedMotion={reducedMotion}>
+          <LocaleProvider labels={labelsProp} dir={dirProp}>
+            <TooltipProvider delayDuration={100}>
+              {" "}
+              {/* Context for all tooltips within NavBar */}
+              <motion.header
+                {...navBar.getHeaderProps()} // Ref, navigation landmark and glass styles
+                dir={dir} // Flex rows below mirror in RTL
+                variants={shouldReduceMotion ? reducedHeaderVariants : headerVariants}
+                animate={navBar.isHidden ? "hidden" : "visible"}
+                transition={{ duration: 0.4, ease: "easeInOut" }}
+                // Base styles - consumer's Tailwind provides these
+                className={clsx(
+                  // Sticks to the top of a scroll container, or is fixed to the viewport
+                  scrollContainerRef ? "sticky top-0 z-30" : "fixed top-0 left-0 right-0 z-30",
+                  className
+                )}
+              >
+                {/* Animated Border */}
+                <motion.div
+                  className="absolute inset-x-0 bottom-0 h-px bg-[color:var(--vs-border)] pointer-events-none" // Prevent interaction
+                  style={{ opacity: navBar.borderOpacity }}
+                />
+                {/* Animated Shadow */}
+                <motion.div
+                  className="absolute inset-0 -z-10 shadow-[var(--vs-shadow)] pointer-events-none" // Behind content, no interaction
+                  style={{ opacity: navBar.shadowOpacity }}
                 />
-              </div>
 
-              {/* Centered Logo Section */}
-              <div className="flex-shrink-0 mx-4 lg:mx-6">
-                {" "}
-                {/* Margins for spacing */}
-                {logoComponent ? logoComponent : <Logo {...logoProps} />}
-              </div>
+                <div className={clsx("container mx-auto px-4 sm:px-6 lg:px-8", containerClassName)}>
+                  <div
+                    ref={barRef}
+                    className={clsx(
+                      "flex justify-between items-center",
+                      isLayoutKnown ? (isMobileLayout ? "h-16" : "h-20") : "h-16 md:h-20"
+                    )}
+                  >
+                    {" "}
+                    {/* Standard navbar height */}
+                    {priorityPlus && isLayoutKnown && !isMobileLayout && (
+                      <DesktopMenuMeasurer
+                        ref={measureRef}
+                        menuItems={navBar.menuItems}
+                        linkClassName={desktopLinkClassName}
+                      />
+                    )}
+                    {/* === DESKTOP NAVIGATION === */}
+                    {showDesktopLayout && (
+                      <DesktopMenubar
+                        semantics={menuSemantics}
+                        menuItems={desktopMenuItems}
+                        overflowItems={overflowItems}
+                        className={desktopSectionClassName}
+                      >
+                        {layout === "centered" ? (
+                          <>
+                            {/* Left Menu Section */}
+                            <div
+                              ref={startSlotRef}
+                              className={clsx(
+                                "flex-1 flex justify-start",
+                                priorityPlus && "min-w-0"
+                              )}
+                            >
+                              <DesktopMenuPart
+                                menuItems={leftMenuItems}
+                                isItemActive={isItemActive}
+                                linkClassName={desktopLinkClassName}
+                                direction="left"
+                                getItemProps={navBar.getItemProps}
+                              />
+                            </div>
 
-              {/* Right Menu Section & Dark Mode Toggle */}
-              <div className="flex-1 flex items-center justify-end space-x-6">
-                <DesktopMenuPart
-                  menuItems={rightMenuItems}
-                  activeSectionId={activeSectionId}
-                  linkClassName={desktopLinkClassName}
-                  direction="right"
-                />
-                {darkModeToggleComponent ? darkModeToggleComponent : <DarkModeToggle />}
-              </div>
-            </div>
-            {/* === MOBILE NAVIGATION === */}
-            <div className="flex md:hidden flex-1 justify-between items-center w-full">
-              {/* Logo on Mobile (typically left) */}
-              <div className="flex-shrink-0">
-                {logoComponent ? logoComponent : <Logo {...logoProps} />}
-              </div>
+                            {/* Centered Logo Section */}
+                            <div className="flex-shrink-0 mx-4 lg:mx-6">
+                              {" "}
+                              {/* Margins for spacing */}
+                              {logo}
+                            </div>
 
-              {/* Mobile Toggles (Dark Mode & Hamburger) */}
-              <div className="flex items-center space-x-3 sm:space-x-4">
-                {" "}
-                {/* Adjusted spacing */}
-                {darkModeToggleComponent ? darkModeToggleComponent : <DarkModeToggle />}
-                <AnimatePresence initial={false}>
-                  {!isMobileMenuOpen && (
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <motion.button
-                          ref={mobileMenuTriggerRef} // For focus restoration
-                          key="hamburger-button"
-                          className={clsx(
-                            "relative z-50 p-2 -mr-1 sm:-mr-2 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-200/50 dark:hover:bg-gray-800/50 focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-indigo-500",
-                            { "cursor-not-allowed": isAnimating, "opacity-50": isAnimating }
-                          )}
-                          onClick={handleOpenMenu}
-                          disabled={isAnimating}
-                          aria-label="Open menu"
-                          aria-expanded={isMobileMenuOpen} // ARIA state for expanded
-                          aria-controls={mobilePopoverId} // Links to popover ID
-                          // Animation for hamburger icon itself
-                          animate={{ opacity: isAnimating ? 0.5 : 1, scale: 1, rotate: 0 }}
-                          initial={{ opacity: 0, scale: 0.5, rotate: -90 }}
-                          exit={{ opacity: 0, scale: 0.5, rotate: -90 }}
-                          transition={{ duration: 0.15, ease: "easeOut" }}
-                        >
-                          <MenuIcon className="h-6 w-6" />
-                        </motion.button>
-                      </TooltipTrigger>
-                      <TooltipContent className="bg-gray-900 text-white px-2 py-1 rounded text-xs shadow-lg dark:bg-gray-100 dark:text-gray-900 select-none">
-                        <p>Open Menu</p>
-                      </TooltipContent>
-                    </Tooltip>
-                  )}
-                </AnimatePresence>
-              </div>
-            </div>
-          </div>
-        </div>
-      </motion.header>
-      {/* Mobile Menu Popover Component (Rendered outside header for stacking context) */}
-      <MobileMenu
-        isOpen={isMobileMenuOpen}
-        setIsOpen={setIsMobileMenuOpen}
-        isAnimating={isAnimating}
-        setIsAnimating={setIsAnimating}
-        triggerRef={mobileMenuTriggerRef} // Pass ref for focus restoration
-        menuItems={menuItems}
-        activeSectionId={activeSectionId}
-        popoverId={mobilePopoverId} // Pass ID for ARIA linking
-        popoverClassName={mobilePopoverClassName}
-        itemClassName={mobileItemClassName}
-        linkClassName={mobileLinkClassName}
-      />
-    </TooltipProvider>
+                            {/* Right Menu Section & Dark Mode Toggle */}
+                            <div
+                              className={clsx(
+                                "flex-1 flex items-center justify-end gap-6",
+                                priorityPlus && "min-w-0"
+                              )}
+                            >
+                              <div ref={endSlotRef} className={menuSlotClassName}>
+                                <DesktopMenuPart
+                                  menuItems={rightMenuItems}
+                                  isItemActive={isItemActive}
+                                  linkClassName={desktopLinkClassName}
+                                  direction="right"
+                                  getItemProps={navBar.getItemProps}
+                                  overflowItems={overflowItems}
+                                />
+                              </div>
+                              {darkModeToggle}
+                            </div>
+                          </>
+                        ) : (
+                          <>
+                            {/* Left Logo Section (flex-1 on both ends keeps centered links truly centered) */}
+                            <div
+                              className={clsx(
+                                "flex justify-start",
+                                layout === "logo-left-centered-links" ? "flex-1" : "flex-shrink-0"
+                              )}
+                            >
+                              {logo}
+                            </div>
+
+                            {layout === "logo-left-centered-links" ? (
+                              <>
+                                {/* Centered Menu Section (a third of the bar in priority-plus mode) */}
+                                <div
+                                  ref={endSlotRef}
+                                  className={clsx(
+                                    "mx-4 lg:mx-6",
+                                    priorityPlus
+                                      ? "flex-1 min-w-0 flex justify-center"
+                                      : "flex-shrink-0"
+                                  )}
+                                >
+                                  <DesktopMenuPart
+                                    menuItems={desktopMenuItems}
+                                    isItemActive={isItemActive}
+                                    linkClassName={desktopLinkClassName}
+                                    direction="left"
+                                    getItemProps={navBar.getItemProps}
+                                    overflowItems={overflowItems}
+                                  />
+                                </div>
+                                {/* Dark Mode Toggle */}
+                                <div className="flex-1 flex items-center justify-end">
+                                  {darkModeToggle}
+                                </div>
+                              </>
+                            ) : (
+                              /* Right Menu Section & Dark Mode Toggle */
+                              <div
+                                className={clsx(
+                                  "flex-1 flex items-center justify-end gap-6",
+                                  priorityPlus && "min-w-0"
+                                )}
+                              >
+                                <div ref={endSlotRef} className={menuSlotClassName}>
+                                  <DesktopMenuPart
+                                    menuItems={desktopMenuItems}
+                                    isItemActive={isItemActive}
+                                    linkClassName={desktopLinkClassName}
+                                    direction="right"
+                                    getItemProps={navBar.getItemProps}
+                                    overflowItems={overflowItems}
+                                  />
+                                </div>
+                                {darkModeToggle}
+                              </div>
+                            )}
+                          </>
+                        )}
+                      </DesktopMenubar>
+                    )}
+                    {/* === MOBILE NAVIGATION === */}
+                    {showMobileLayout && (
+                      <div
+                        className={clsx(
+                          isLayoutKnown ? "flex" : "flex md:hidden",
+                          "flex-1 justify-between items-center w-full"
+                        )}
+                      >
+                        {/* Logo on Mobile (typically left) */}
+                        <div className="flex-shrink-0">{logo}</div>
+
+                        {/* Mobile Toggles (Dark Mode & Hamburger) */}
+                        <div className="flex items-center gap-3 sm:gap-4">
+                          {" "}
+                          {/* Adjusted spacing */}
+                          {darkModeToggle}
+                          <AnimatePresence initial={false}>
+                            {!mobileMenu.isOpen && (
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <motion.button
+                                    {...mobileMenu.getTriggerProps()} // Ref for focus restoration, ARIA state
+                                    key="hamburger-button"
+                                    className={clsx(
+                                      "relative z-50 p-2 rounded-md text-[color:var(--vs-text)] hover:bg-[color:var(--vs-control)] focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-[color:var(--vs-focus-ring)]",
+                                      isRtl ? "-ml-1 sm:-ml-2" : "-mr-1 sm:-mr-2", // Pull toward the inline end
+                                      {
+                                        "cursor-not-allowed": mobileMenu.isAnimating,
+                                        "opacity-50": mobileMenu.isAnimating,
+                                      }
+                                    )}
+                                    // Animation for hamburger icon itself
+                                    animate={{
+                                      opacity: mobileMenu.isAnimating ? 0.5 : 1,
+                                      scale: 1,
+                                      rotate: 0,
+                                    }}
+                                    initial={
+                                      shouldReduceMotion
+                                        ? { opacity: 0 }
+                                        : { opacity: 0, scale: 0.5, rotate: -90 }
+                                    }
+                                    exit={
+                                      shouldReduceMotion
+                                        ? { opacity: 0 }
+                                        : { opacity: 0, scale: 0.5, rotate: -90 }
+                                    }
+                                    transition={{ duration: 0.15, ease: "easeOut" }}
+                                  >
+                                    <MenuIcon className="h-6 w-6" />
+                                  </motion.button>
+                                </TooltipTrigger>
+                                <TooltipContent className="bg-[color:var(--vs-tooltip-bg)] text-[color:var(--vs-tooltip-text)] px-2 py-1 rounded text-xs shadow-lg select-none">
+                                  <p>{labels.openMenu}</p>
+                                </TooltipContent>
+                              </Tooltip>
+                            )}
+                          </AnimatePresence>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </motion.header>
+              {/* Mobile Menu Popover Component (Rendered outside header for stacking context) */}
+              <MobileMenu
+                menu={mobileMenu} // Open / animating state, focus restoration and ARIA linking
+                menuItems={navBar.menuItems}
+                isItemActive={isItemActive}
+                popoverClassName={mobilePopoverClassName}
+                itemClassName={mobileItemClassName}
+                linkClassName={mobileLinkClassName}
+                variant={mobileMenuVariant}
+              />
+            </TooltipProvider>
+          </LocaleProvider>
+        </ReducedMotionProvider>
+      </NavBarThemeProvider>
+    </LinkProvider>
   );
-};
+});
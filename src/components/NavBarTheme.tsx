@@ -0,0 +1,238 @@
+"use client";
+
+import React from "react";
+import { useThemeState } from "./ThemeProvider";
+
+/** A token value: one value for both color schemes, or separate light / dark values. */
+export type ThemedValue = string | { light: string; dark: string };
+
+/**
+ * Design tokens used by the NavBar and its parts.
+ * Color tokens accept any CSS color (including `var(--brand-color)`).
+ */
+export interface NavBarTheme {
+  /** Header background at the top of the page (before the glass transition). */
+  glassStart: ThemedValue;
+  /** Header background once scrolled past the transition range. */
+  glassEnd: ThemedValue;
+  /** Backdrop blur (px) of the scrolled header. */
+  blur: number;
+  /** Header bottom border, submenu border and dividers. */
+  border: ThemedValue;
+  /** Header box shadow once scrolled. */
+  shadow: ThemedValue;
+  /** Active item text, active indicator and logo hover color. */
+  accent: ThemedValue;
+  /** Subtle accent background for active / hovered entries in menus. */
+  accentSoft: ThemedValue;
+  /** Text on accent backgrounds, such as call-to-action items. */
+  accentText: ThemedValue;
+  /** Focus ring color. */
+  focusRing: ThemedValue;
+  /** Color of the gap between a focus ring and its element. */
+  focusRingOffset: ThemedValue;
+  /** Default menu item text. */
+  text: ThemedValue;
+  /** Emphasized text: hovered items, the logo and mobile menu links. */
+  textStrong: ThemedValue;
+  /** Secondary text: group headings, descriptions and chevrons. */
+  textMuted: ThemedValue;
+  /** Hover highlight pill behind desktop items. */
+  highlight: ThemedValue;
+  /** Background of icon buttons (dark mode toggle, hamburger hover). */
+  control: ThemedValue;
+  /** Hover background of icon buttons. */
+  controlHover: ThemedValue;
+  /** Background of the mobile menu and submenu panels. */
+  surface: ThemedValue;
+  /** Tooltip background. */
+  tooltipBackground: ThemedValue;
+  /** Tooltip text. */
+  tooltipText: ThemedValue;
+  /** Dimmed overlay behind the drawer and bottom-sheet mobile menus. */
+  overlay: ThemedValue;
+  /** Glow around the logo on hover. */
+  glow: ThemedValue;
+  /** First color of the mobile menu's animated background gradient. */
+  flairPrimary: ThemedValue;
+  /** Second color of the mobile menu's animated background gradient. */
+  flairSecondary: ThemedValue;
+  /** Third color of the mobile menu's animated background gradient. */
+  flairTertiary: ThemedValue;
+}
+
+/** The default tokens, matching the library's original Tailwind gray / indigo palette. */
+export const defaultNavBarTheme: NavBarTheme = {
+  glassStart: { light: "rgba(255, 255, 255, 0)", dark: "rgba(17, 24, 39, 0)" },
+  glassEnd: { light: "rgba(255, 255, 255, 0.75)", dark: "rgba(17, 24, 39, 0.75)" },
+  blur: 10,
+  border: { light: "#d1d5db", dark: "#374151" },
+  shadow: {
+    light: "0 4px 6px -1px rgb(0 0 0 / 0.1), 0 2px 4px -2px rgb(0 0 0 / 0.1)",
+    dark: "0 10px 15px -3px rgb(0 0 0 / 0.1), 0 4px 6px -4px rgb(0 0 0 / 0.1)",
+  },
+  accent: { light: "#4f46e5", dark: "#818cf8" },
+  accentSoft: { light: "rgba(224, 231, 255, 0.5)", dark: "rgba(49, 46, 129, 0.3)" },
+  accentText: { light: "#ffffff", dark: "#111827" },
+  focusRing: "#6366f1",
+  focusRingOffset: { light: "#ffffff", dark: "#111827" },
+  text: { light: "#4b5563", dark: "#9ca3af" },
+  textStrong: { light: "#111827", dark: "#f3f4f6" },
+  textMuted: { light: "#6b7280", dark: "#9ca3af" },
+  highlight: { light: "#f3f4f6", dark: "rgba(31, 41, 55, 0.7)" },
+  control: { light: "rgba(229, 231, 235, 0.5)", dark: "rgba(31, 41, 55, 0.5)" },
+  controlHover: { light: "rgba(209, 213, 219, 0.7)", dark: "rgba(55, 65, 81, 0.7)" },
+  surface: { light: "rgba(255, 255, 255, 0.92)", dark: "rgba(3, 7, 18, 0.92)" },
+  tooltipBackground: { light: "#111827", dark: "#f3f4f6" },
+  tooltipText: { light: "#ffffff", dark: "#111827" },
+  overlay: { light: "rgba(0, 0, 0, 0.4)", dark: "rgba(0, 0, 0, 0.6)" },
+  glow: "rgba(99, 102, 241, 0.5)",
+  flairPrimary: "rgba(99, 102, 241, 0.1)",
+  flairSecondary: "rgba(168, 85, 247, 0.05)",
+  flairTertiary: "rgba(236, 72, 153, 0.1)",
+};
+
+/** Tokens animated in JS (the glass transition, logo glow and mobile menu gradient). */
+type AnimatedToken =
+  | "glassStart"
+  | "glassEnd"
+  | "blur"
+  | "glow"
+  | "flairPrimary"
+  | "flairSecondary"
+  | "flairTertiary";
+
+/**
+ * Tokens read by the components' classes through CSS custom properties. Animated tokens are
+ * resolved in JS, so they are not exposed as variables.
+ */
+type CssToken = Exclude<keyof NavBarTheme, AnimatedToken>;
+
+/** CSS custom property for each color token, referenced by the components' classes. */
+const CSS_VARIABLES: Record<CssToken, string> = {
+  border: "--vs-border",
+  shadow: "--vs-shadow",
+  accent: "--vs-accent",
+  accentSoft: "--vs-accent-soft",
+  accentText: "--vs-accent-text",
+  focusRing: "--vs-focus-ring",
+  focusRingOffset: "--vs-focus-ring-offset",
+  text: "--vs-text",
+  textStrong: "--vs-text-strong",
+  textMuted: "--vs-text-muted",
+  highlight: "--vs-highlight",
+  control: "--vs-control",
+  controlHover: "--vs-control-hover",
+  surface: "--vs-surface",
+  tooltipBackground: "--vs-tooltip-bg",
+  tooltipText: "--vs-tooltip-text",
+  overlay: "--vs-overlay",
+};
+
+/**
+ * Picks the value of a token for a color scheme.
+ * @internal
+ */
+export const resolveThemedValue = (value: ThemedValue, scheme: "light" | "dark"): string =>
+  typeof value === "string" ? value : value[scheme];
+
+/** Strips characters that could end a declaration, a rule or the `<style>` element. */
+const sanitizeCssValue = (value: string): string => value.replace(/[<>{};]/g, "");
+
+/** Maps every CSS custom property to its (sanitized) value for one color scheme. */
+const toVariables = (theme: NavBarTheme, scheme: "light" | "dark"): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(CSS_VARIABLES).map(([token, variable]) => [
+      variable,
+      sanitizeCssValue(resolveThemedValue(theme[token as CssToken], scheme)),
+    ])
+  );
+
+/** Serializes the variables of one color scheme into CSS declarations. */
+const toDeclarations = (theme: NavBarTheme, scheme: "light" | "dark"): string =>
+  Object.entries(toVariables(theme, scheme))
+    .map(([variable, value]) => `${variable}:${value};`)
+    .join("");
+
+const NavBarThemeContext = React.createContext<NavBarTheme | null>(null);
+
+/**
+ * Props for the NavBarThemeProvider component.
+ */
+export interface NavBarThemeProviderProps {
+  /** Tokens to override; unspecified tokens come from the parent provider or the defaults. */
+  theme?: Partial<NavBarTheme>;
+  children: React.ReactNode;
+}
+
+/**
+ * Provides design tokens to every NavBar, Logo and DarkModeToggle below it.
+ * Color tokens are exposed as CSS custom properties (`--vs-accent`, `--vs-surface`, ...) on a
+ * scope element, with the light or dark values picked from the resolved theme of the active
+ * theme adapter. Until it is known (during SSR and hydration), dark values apply under a
+ * `.dark` class or `[data-theme="dark"]` attribute on an ancestor.
+ *
+ * @example
+ * ```tsx
+ * <NavBarThemeProvider theme={{ accent: { light: "#0f766e", dark: "#5eead4" }, blur: 16 }}>
+ *   <NavBar menuItems={menuItems} />
+ * </NavBarThemeProvider>
+ * ```
+ */
+export const NavBarThemeProvider: React.FC<NavBarThemeProviderProps> = ({ theme, children }) => {
+  const parentTheme = React.useContext(NavBarThemeContext);
+  // Ids from `useId` may contain characters that aren't valid in a class name
+  const scopeClassName = `vs-theme-${React.useId().replace(/[^\w-]/g, "")}`;
+  const { resolvedTheme } = useThemeState(); // From the active theme adapter
+
+  const mergedTheme = React.useMemo<NavBarTheme>(
+    () => ({ ...(parentTheme ?? defaultNavBarTheme), ...theme }),
+    [parentTheme, theme]
+  );
+
+  // Once the adapter knows the theme, the variables follow it, whatever attribute it applies
+  // the theme with. Until then (SSR and hydration), class-scoped rules pick the scheme from a
+  // `.dark` class or `[data-theme="dark"]` attribute on an ancestor.
+  const scopeStyle = React.useMemo<React.CSSProperties>(
+    () => ({ display: "contents", ...(resolvedTheme && toVariables(mergedTheme, resolvedTheme)) }),
+    [mergedTheme, resolvedTheme]
+  );
+  const fallbackCss = React.useMemo(() => {
+    if (resolvedTheme) return null;
+    const scope = `.${scopeClassName}`;
+    return (
+      `${scope}{${toDeclarations(mergedTheme, "light")}}` +
+      `.dark ${scope},[data-theme="dark"] ${scope}{${toDeclarations(mergedTheme, "dark")}}`
+    );
+  }, [mergedTheme, scopeClassName, resolvedTheme]);
+
+  return (
+    <NavBarThemeContext.Provider value={mergedTheme}>
+      {/* Injected as HTML: React 18 escapes `<style>` text during SSR, breaking the selectors */}
+      {fallbackCss && <style dangerouslySetInnerHTML={{ __html: fallbackCss }} />}
+      {/* `display: contents` keeps the scope element out of layout while variables still inherit */}
+      <div className={scopeClassName} style={scopeStyle}>
+        {children}
+      </div>
+    </NavBarThemeContext.Provider>
+  );
+};
+
+/**
+ * Returns the design tokens from the nearest `NavBarThemeProvider`, or the defaults.
+ * @internal
+ */
+export const useNavBarTheme = (): NavBarTheme =>
+  React.useContext(NavBarThemeContext) ?? defaultNavBarTheme;
+
+/**
+ * Wraps standalone components in a default token scope when no provider is mounted,
+ * so their `var(--vs-*)` classes always resolve.
+ * @internal
+ */
+export const EnsureNavBarTheme: React.FC<{ children: React.ReactNode }> = ({ children }) =>
+  React.useContext(NavBarThemeContext) ? (
+    <>{children}</>
+  ) : (
+    <NavBarThemeProvider>{children}</NavBarThemeProvider>
+  );
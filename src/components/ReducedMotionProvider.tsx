@@ -0,0 +1,76 @@
+"use client";
+
+import React from "react";
+import { MotionConfig, useReducedMotion } from "framer-motion"; // Peer dependency
+
+/**
+ * Motion policy for the library's animations.
+ * - `"user"`: follow the operating system's `prefers-reduced-motion` setting.
+ * - `"always"`: always use reduced motion (opacity-only or instant transitions).
+ * - `"never"`: always play the full animations.
+ */
+export type ReducedMotionPolicy = "user" | "always" | "never";
+
+const ReducedMotionContext = React.createContext<ReducedMotionPolicy>("user");
+
+/**
+ * Props for the ReducedMotionProvider component.
+ */
+export interface ReducedMotionProviderProps {
+  /**
+   * The motion policy for every component below this provider.
+   * When omitted, the policy of the parent provider is kept (`"user"` at the top level).
+   */
+  reducedMotion?: ReducedMotionPolicy;
+  children: React.ReactNode;
+}
+
+/**
+ * Sets the motion policy for every NavBar, Logo and DarkModeToggle below it.
+ * Under reduced motion, slides, rotations, springs and looping effects are swapped for
+ * opacity-only or instant transitions. Also configures Framer Motion's `MotionConfig`,
+ * so shared layout animations (e.g. active indicators) respect the same policy.
+ *
+ * @example
+ * ```tsx
+ * <ReducedMotionProvider reducedMotion="always">
+ *   <NavBar menuItems={menuItems} />
+ * </ReducedMotionProvider>
+ * ```
+ */
+export const ReducedMotionProvider: React.FC<ReducedMotionProviderProps> = ({
+  reducedMotion,
+  children,
+}) => {
+  const parentPolicy = React.useContext(ReducedMotionContext);
+  const policy = reducedMotion ?? parentPolicy;
+
+  return (
+    <ReducedMotionContext.Provider value={policy}>
+      <MotionConfig reducedMotion={policy}>{children}</MotionConfig>
+    </ReducedMotionContext.Provider>
+  );
+};
+
+/**
+ * Returns whether animations should be reduced, combining the nearest provider's policy with
+ * the user's `prefers-reduced-motion` setting. Use it to give custom logo or toggle components
+ * the same behavior as the built-in ones.
+ *
+ * @param policyOverride - Optional policy taking precedence over the provider's.
+ */
+export const useShouldReduceMotion = (policyOverride?: ReducedMotionPolicy): boolean => {
+  const contextPolicy = React.useContext(ReducedMotionContext);
+  const policy = policyOverride ?? contextPolicy;
+  const prefersReducedMotion = useReducedMotion(); // Tracks the media query
+  return policy === "always" || (policy === "user" && prefersReducedMotion === true);
+};
+
+/**
+ * Opacity-only `hidden` / `visible` variants used in place of movement under reduced motion.
+ * @internal
+ */
+export const fadeVariants = {
+  hidden: { opacity: 0, transition: { duration: 0.15, ease: "linear" } },
+  visible: { opacity: 1, transition: { duration: 0.15, ease: "linear" } },
+};
@@ -0,0 +1,152 @@
+"use client";
+
+import React from "react";
+import type { ScrollspyStrategy } from "../utils/scrollspy";
+import {
+  createSectionObserver,
+  followScrollspy,
+  type ActiveIdCell,
+  type ScrollspyTrackerConfig,
+  type SectionObserver,
+} from "../utils/scrollspyTracker";
+
+/**
+ * Shares one section observer between every consumer with the same root and observer options.
+ * @internal
+ */
+export interface ScrollspyRegistry {
+  /**
+   * Tracks `config.itemIds` through the shared observer for its root and options, starting it
+   * if needed. The active section is resolved from the shared state and kept in a cell shared
+   * with every consumer of the same sections, options and strategy, so they always agree.
+   * The strategy is read once here: consumers track again when theirs changes.
+   * @returns A function stopping the tracking; the observer stops with its last consumer.
+   */
+  track: (config: ScrollspyTrackerConfig) => () => void;
+}
+
+/** A kept active ID and the number of consumers sharing it. */
+interface SharedActiveId {
+  cell: ActiveIdCell;
+  consumers: number;
+}
+
+/** A running section observer, the number of consumers using it and their kept active IDs. */
+interface RegistryEntry {
+  sectionObserver: SectionObserver;
+  consumers: number;
+  activeIds: Map<string, SharedActiveId>;
+}
+
+// Elements and custom resolvers can't be serialized, so they are keyed by identity
+const objectKeys = new WeakMap<object, number>();
+let nextObjectKey = 0;
+const getObjectKey = (value: object): number => {
+  let key = objectKeys.get(value);
+  if (key === undefined) {
+    key = nextObjectKey++;
+    objectKeys.set(value, key);
+  }
+  return key;
+};
+
+/** Builds the key identifying the observer a consumer shares: its root and observer options. */
+const getObserverKey = ({ root, options }: ScrollspyTrackerConfig) =>
+  JSON.stringify([root ? getObjectKey(root) : null, options.rootMargin, options.threshold]);
+
+/** Builds the key identifying the active ID a consumer shares: its sections, options and strategy. */
+const getActiveIdKey = (
+  { itemIds, options }: ScrollspyTrackerConfig,
+  strategy: ScrollspyStrategy
+) =>
+  JSON.stringify([
+    itemIds,
+    options,
+    typeof strategy === "function" ? getObjectKey(strategy) : strategy,
+  ]);
+
+/** Creates an empty registry. */
+const createScrollspyRegistry = (): ScrollspyRegistry => {
+  const entries = new Map<string, RegistryEntry>();
+
+  return {
+    track: (config) => {
+      const key = getObserverKey(config);
+      let entry = entries.get(key);
+      if (!entry) {
+        entry = {
+          sectionObserver: createSectionObserver(config.root, config.options),
+          consumers: 0,
+          activeIds: new Map(),
+        };
+        entries.set(key, entry);
+      }
+
+      // Late consumers start from the active ID the others currently keep
+      const activeIdKey = getActiveIdKey(config, config.getStrategy());
+      let sharedActiveId = entry.activeIds.get(activeIdKey);
+      if (!sharedActiveId) {
+        sharedActiveId = { cell: { current: config.initialActiveId ?? null }, consumers: 0 };
+        entry.activeIds.set(activeIdKey, sharedActiveId);
+      }
+
+      const trackedEntry = entry;
+      const trackedActiveId = sharedActiveId;
+      trackedEntry.consumers++;
+      trackedActiveId.consumers++;
+      const stop = followScrollspy(trackedEntry.sectionObserver, config, trackedActiveId.cell);
+      return () => {
+        stop();
+        trackedActiveId.consumers--;
+        if (trackedActiveId.consumers === 0) trackedEntry.activeIds.delete(activeIdKey);
+        trackedEntry.consumers--;
+        if (trackedEntry.consumers === 0) {
+          trackedEntry.sectionObserver.disconnect();
+          entries.delete(key);
+        }
+      };
+    },
+  };
+};
+
+const ScrollspyContext = React.createContext<ScrollspyRegistry | null>(null);
+
+/**
+ * Props for the ScrollspyProvider component.
+ */
+export interface ScrollspyProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Shares scrollspy observers between every `useScrollspy` / `useScrollspyState` call below it,
+ * including the one in `NavBar`. Consumers with the same `root`, `rootMargin` and `threshold`
+ * share a single observer, whatever sections they track: each element is observed once, and
+ * consumers tracking the same IDs with the same options and strategy share the resolved active
+ * section, so they always agree, e.g. a NavBar and a sub-navigation over the same sections.
+ *
+ * @remarks
+ * Custom strategy resolvers are compared by identity: define them outside the component, or
+ * memoize them, so consumers using the same one share its active section. A consumer whose
+ * strategy changes moves to the active section shared by that strategy's consumers.
+ *
+ * @example
+ * ```tsx
+ * <ScrollspyProvider>
+ *   <NavBar menuItems={menuItems} />
+ *   <SectionTabs />
+ * </ScrollspyProvider>
+ * ```
+ */
+export const ScrollspyProvider: React.FC<ScrollspyProviderProps> = ({ children }) => {
+  const [registry] = React.useState(createScrollspyRegistry);
+
+  return <ScrollspyContext.Provider value={registry}>{children}</ScrollspyContext.Provider>;
+};
+
+/**
+ * Returns the registry of the nearest `ScrollspyProvider`, or `null` outside of one.
+ * @internal
+ */
+export const useScrollspyRegistry = (): ScrollspyRegistry | null =>
+  React.useContext(ScrollspyContext);
@@ -0,0 +1,157 @@
+"use client";
+
+import React from "react";
+import { createThemeReader, createThemeStore } from "../utils/themeStore";
+
+/** A theme preference: an explicit theme, or following the operating system. */
+export type ThemePreference = "light" | "dark" | "system";
+
+/** The theme actually in effect. */
+export type ResolvedTheme = "light" | "dark";
+
+/**
+ * Connects the library to an application's theme state.
+ * `DarkModeToggle` and the `NavBar` background read and change the theme through it.
+ */
+export interface ThemeAdapter {
+  /** Returns the user's preference, or `undefined` while unknown (e.g. during SSR). */
+  getTheme: () => ThemePreference | undefined;
+  /** Returns the theme in effect, or `undefined` while unknown (e.g. during SSR). */
+  getResolvedTheme: () => ResolvedTheme | undefined;
+  /** Changes the preference. */
+  setTheme: (theme: ThemePreference) => void;
+  /** Registers a listener called whenever the theme or resolved theme changes; returns an unsubscribe function. */
+  subscribe: (listener: () => void) => () => void;
+}
+
+/** The theme state exposed by `useThemeState`. */
+export interface ThemeState {
+  theme: ThemePreference | undefined;
+  resolvedTheme: ResolvedTheme | undefined;
+  setTheme: (theme: ThemePreference) => void;
+}
+
+/**
+ * Lazily created read-only adapter used when no provider is mounted, so components work
+ * standalone without taking over a theme another library manages.
+ */
+let fallbackAdapter: ThemeAdapter | null = null;
+const getFallbackAdapter = (): ThemeAdapter => {
+  fallbackAdapter ??= createThemeReader("theme");
+  return fallbackAdapter;
+};
+
+const ThemeAdapterContext = React.createContext<ThemeAdapter | null>(null);
+
+/**
+ * Props for the ThemeAdapterProvider component.
+ */
+export interface ThemeAdapterProviderProps {
+  /** The adapter to use for all library components rendered below this provider. */
+  adapter: ThemeAdapter;
+  children: React.ReactNode;
+}
+
+/**
+ * Provides a custom `ThemeAdapter`, for apps that manage their theme themselves.
+ * Use `NextThemesAdapter` from `@venkatasudha/components/next-themes` for next-themes.
+ */
+export const ThemeAdapterProvider: React.FC<ThemeAdapterProviderProps> = ({
+  adapter,
+  children,
+}) => <ThemeAdapterContext.Provider value={adapter}>{children}</ThemeAdapterContext.Provider>;
+
+/**
+ * Props for the built-in ThemeProvider component.
+ */
+export interface ThemeProviderProps {
+  children: React.ReactNode;
+  /**
+   * Preference used when nothing has been stored yet.
+   * @default "system"
+   */
+  defaultTheme?: ThemePreference;
+  /**
+   * localStorage key used to persist the preference.
+   * @default "theme"
+   */
+  storageKey?: string;
+  /**
+   * Whether `"system"` follows `prefers-color-scheme`.
+   * @default true
+   */
+  enableSystem?: boolean;
+  /**
+   * How the resolved theme is applied to `<html>`: `"class"` toggles `light`/`dark` classes
+   * (matching Tailwind's `darkMode: "class"`), any other value is set as an attribute, e.g. `"data-theme"`.
+   * @default "class"
+   */
+  attribute?: string;
+}
+
+/**
+ * A small built-in theme provider for apps without next-themes.
+ * Persists the preference in localStorage, follows `prefers-color-scheme` and applies the
+ * theme as a class or attribute on `<html>`.
+ *
+ * @example
+ * ```tsx
+ * <ThemeProvider attribute="class" defaultTheme="system">
+ *   <NavBar menuItems={menuItems} />
+ * </ThemeProvider>
+ * ```
+ */
+export const ThemeProvider: React.FC<ThemeProviderProps> = ({
+  children,
+  defaultTheme = "system",
+  storageKey = "theme",
+  enableSystem = true,
+  attribute = "class",
+}) => {
+  const store = React.useMemo(
+    () => createThemeStore({ storageKey, defaultTheme, enableSystem, attribute }),
+    [storageKey, defaultTheme, enableSystem, attribute]
+  );
+
+  // Apply the stored / system theme once on the client
+  React.useEffect(() => store.apply(), [store]);
+
+  return <ThemeAdapterProvider adapter={store}>{children}</ThemeAdapterProvider>;
+};
+
+/**
+ * Returns the theme adapter from the nearest provider, or a built-in read-only fallback.
+ * @internal
+ */
+export const useThemeAdapter = (): ThemeAdapter =>
+  React.useContext(ThemeAdapterContext) ?? getFallbackAdapter();
+
+/**
+ * Whether a provider supplies a theme adapter, i.e. whether the theme can be changed.
+ * @internal
+ */
+export const useHasThemeAdapter = (): boolean => React.useContext(ThemeAdapterContext) !== null;
+
+const getServerSnapshot = () => undefined;
+
+/**
+ * Subscribes to the current theme through the active `ThemeAdapter`.
+ *
+ * @returns The preference, the resolved theme and a setter.
+ *          Both values are `undefined` during server rendering.
+ *
+ * @example
+ * ```tsx
+ * const { resolvedTheme, setTheme } = useThemeState();
+ * ```
+ */
+export function useThemeState(): ThemeState {
+  const adapter = useThemeAdapter();
+  const theme = React.useSyncExternalStore(adapter.subscribe, adapter.getTheme, getServerSnapshot);
+  const resolvedTheme = React.useSyncExternalStore(
+    adapter.subscribe,
+    adapter.getResolvedTheme,
+    getServerSnapshot
+  );
+  return { theme, resolvedTheme, setTheme: adapter.setTheme };
+}
@@ -0,0 +1,57 @@
+"use client"; // Indicate client-side hook
+
+import { useCallback, useRef, useState } from "react";
+
+/**
+ * State that can be either controlled by a prop or kept internally.
+ * When `value` is defined it is used as the state and the setter only reports changes through
+ * `onChange`; otherwise the state is internal, starting at `defaultValue`.
+ * `onChange` fires only for actual changes, so the setter can be called freely (e.g. on scroll):
+ * a value already reported isn't reported again while a controlled prop keeps its old value.
+ *
+ * @param value - The controlled value, or `undefined` for uncontrolled state.
+ * @param defaultValue - Initial value of the uncontrolled state.
+ * @param onChange - Called with the new value whenever the state is asked to change.
+ * @returns A tuple of the current value and a stable setter.
+ * @internal
+ */
+export function useControllableState<T>(
+  value: T | undefined,
+  defaultValue: T,
+  onChange?: (value: T) => void
+): [T, (nextValue: T) => void] {
+  const [internalValue, setInternalValue] = useState(defaultValue);
+  const isControlled = value !== undefined;
+  const currentValue = isControlled ? value : internalValue;
+
+  // Refs keep the setter stable while reading the latest value and callback
+  const currentValueRef = useRef(currentValue);
+  // The last value reported through `onChange` and not yet rendered: a controlled parent may
+  // keep its prop, so requests are deduped against it rather than against the prop
+  const reportedValueRef = useRef<{ value: T } | null>(null);
+  if (
+    !Object.is(currentValueRef.current, currentValue) ||
+    Object.is(reportedValueRef.current?.value, currentValue)
+  ) {
+    reportedValueRef.current = null; // The state changed, or now holds the reported value
+  }
+  currentValueRef.current = currentValue;
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const isControlledRef = useRef(isControlled);
+  isControlledRef.current = isControlled;
+
+  const setValue = useCallback((nextValue: T) => {
+    const latestValue = reportedValueRef.current
+      ? reportedValueRef.current.value
+      : currentValueRef.current;
+    if (Object.is(nextValue, latestValue)) return;
+    reportedValueRef.current = { value: nextValue }; // Dedupe repeated calls until the state changes
+    if (!isControlledRef.current) {
+      setInternalValue(nextValue);
+    }
+    onChangeRef.current?.(nextValue);
+  }, []);
+
+  return [currentValue, setValue];
+}
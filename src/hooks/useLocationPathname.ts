@@ -0,0 +1,26 @@
+"use client"; // Indicate client-side hook
+
+import { useSyncExternalStore } from "react";
+
+/** Subscribes to history traversal, the only pathname change the browser announces. */
+const subscribe = (onChange: () => void) => {
+  window.addEventListener("popstate", onChange);
+  return () => window.removeEventListener("popstate", onChange);
+};
+
+const getSnapshot = () => window.location.pathname;
+const getServerSnapshot = () => null;
+
+/**
+ * A framework-agnostic hook returning `window.location.pathname`.
+ * Used by the default link adapter when no router-specific `usePathname` is provided.
+ *
+ * @remarks
+ * Updates on back/forward navigation. Client-side routers that call `history.pushState`
+ * don't emit an event, so pass their own pathname hook through a `LinkAdapter` instead.
+ *
+ * @returns The current pathname, or `null` during server rendering.
+ */
+export function useLocationPathname(): string | null {
+  return useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+}
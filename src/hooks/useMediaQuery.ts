@@ -0,0 +1,44 @@
+"use client"; // Indicate client-side hook
+
+import { useCallback, useSyncExternalStore } from "react";
+
+const getServerSnapshot = () => null;
+
+/**
+ * A hook returning whether a CSS media query currently matches, updating when it changes,
+ * or `null` while the match is unknown.
+ *
+ * @remarks
+ * Returns `null` during server rendering and hydration, then the actual match.
+ *
+ * @param query - The media query to match, e.g. `"(min-width: 768px)"`.
+ * @returns Whether the media query matches, or `null` before hydration.
+ * @internal
+ */
+export function useMediaQueryState(query: string): boolean | null {
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      const mediaQueryList = window.matchMedia(query);
+      mediaQueryList.addEventListener("change", onChange);
+      return () => mediaQueryList.removeEventListener("change", onChange);
+    },
+    [query]
+  );
+  const getSnapshot = () => window.matchMedia(query).matches;
+
+  return useSyncExternalStore<boolean | null>(subscribe, getSnapshot, getServerSnapshot);
+}
+
+/**
+ * A hook returning whether a CSS media query currently matches, updating when it changes.
+ *
+ * @remarks
+ * Returns `false` during server rendering and hydration, then the actual match.
+ *
+ * @param query - The media query to match, e.g. `"(min-width: 768px)"`.
+ * @returns Whether the media query matches.
+ * @internal
+ */
+export function useMediaQuery(query: string): boolean {
+  return useMediaQueryState(query) ?? false;
+}
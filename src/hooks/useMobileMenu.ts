@@ -0,0 +1,350 @@
+"use client"; // Indicate client-side hook
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import type { MenuItem } from "../components/NavBar";
+import { useLocale } from "../components/LocaleProvider";
+import type { NavBarLabels } from "../components/LocaleProvider";
+import { useControllableState } from "./useControllableState";
+import { getClickedSectionId } from "../utils/scrollToSection";
+import { isMenuItemActive } from "../utils/menuItems";
+
+/**
+ * Options for the `useMobileMenu` hook.
+ */
+export interface UseMobileMenuOptions {
+  /** Controlled open state. When provided, changes are requested through `onOpenChange`. */
+  isOpen?: boolean;
+  /**
+   * Initial open state when uncontrolled.
+   * @default false
+   */
+  defaultOpen?: boolean;
+  /** Called when the menu asks to open or close (trigger, close button, Escape, navigation). */
+  onOpenChange?: (open: boolean) => void;
+  /**
+   * Whether an item is active, reflected as `aria-current="page"` by `getItemProps`. Parents
+   * of an active item are active too.
+   */
+  isItemActive?: (item: MenuItem) => boolean;
+  /**
+   * Scrolls to an in-page section once the menu has finished closing, instead of the link's
+   * default jump. Without it, section links navigate as usual.
+   */
+  onSectionNavigate?: (id: string) => void;
+  /**
+   * Whether the mobile layout is in use. When it turns `false` (e.g. after resizing to
+   * desktop), an open menu closes at once, without waiting for its animation.
+   * @default true
+   */
+  isMobileLayout?: boolean;
+  /**
+   * Lock the page scroll while the menu is open.
+   * @default true
+   */
+  lockScroll?: boolean;
+  /** DOM id of the popover, referenced by the trigger's `aria-controls`. Generated by default. */
+  id?: string;
+  /** Labels overriding the nearest `LocaleProvider`'s (`openMenu`, `closeMenu`, `mobileNavigation`). */
+  labels?: Partial<NavBarLabels>;
+}
+
+/**
+ * Props returned by `getTriggerProps`, for the button opening the menu.
+ */
+export interface MobileMenuTriggerProps {
+  ref: React.RefObject<HTMLButtonElement>;
+  type: "button";
+  onClick: React.MouseEventHandler<HTMLButtonElement>;
+  disabled: boolean;
+  "aria-label": string;
+  "aria-expanded": boolean;
+  "aria-controls": string;
+}
+
+/**
+ * Props returned by `getPopoverProps`, for the menu panel. The animation callbacks track
+ * `isAnimating` and are meant for a Framer Motion element.
+ */
+export interface MobileMenuPopoverProps {
+  ref: React.RefObject<HTMLDivElement>;
+  id: string;
+  role: "dialog";
+  "aria-modal": true;
+  "aria-label": string;
+  onAnimationStart: () => void;
+  onAnimationComplete: (definition: unknown) => void;
+}
+
+/**
+ * Props returned by `getCloseButtonProps`, for the button closing the menu.
+ */
+export interface MobileMenuCloseButtonProps {
+  type: "button";
+  onClick: React.MouseEventHandler<HTMLButtonElement>;
+  disabled: boolean;
+  "aria-label": string;
+}
+
+/**
+ * Props returned by `getItemProps`, for a menu item's link.
+ */
+export interface MobileMenuItemProps {
+  /** The item's `href`; omitted for disabled items, which aren't navigable. */
+  href?: string;
+  onClick: React.MouseEventHandler<HTMLAnchorElement>;
+  "aria-current"?: "page";
+  "aria-disabled"?: true;
+  target?: "_blank";
+  rel?: string;
+}
+
+/**
+ * State, actions and prop getters returned by `useMobileMenu`.
+ */
+export interface MobileMenuState {
+  isOpen: boolean;
+  /** Whether the popover is playing its open / close animation; actions are ignored meanwhile. */
+  isAnimating: boolean;
+  /** Opens the menu. Ignored while animating. */
+  open: () => void;
+  /** Closes the menu. Ignored while animating. */
+  close: () => void;
+  /** Opens or closes the menu. Ignored while animating. */
+  toggle: () => void;
+  /** DOM id of the popover. */
+  popoverId: string;
+  /** The trigger button, which gets focus back once the menu has closed. */
+  triggerRef: React.RefObject<HTMLButtonElement>;
+  /** The popover, e.g. the fallback focus of a focus trap. */
+  popoverRef: React.RefObject<HTMLDivElement>;
+  /**
+   * Finishes closing: scrolls to the section chosen in the menu, or restores focus to the
+   * trigger. Pass it to `AnimatePresence`'s `onExitComplete` (or call it once closed).
+   */
+  onExitComplete: () => void;
+  getTriggerProps: (props?: {
+    onClick?: React.MouseEventHandler<HTMLButtonElement>;
+  }) => MobileMenuTriggerProps;
+  getPopoverProps: () => MobileMenuPopoverProps;
+  getCloseButtonProps: (props?: {
+    onClick?: React.MouseEventHandler<HTMLButtonElement>;
+  }) => MobileMenuCloseButtonProps;
+  /** Props for an item's link: closing the menu on navigation, and deferring section scrolls. */
+  getItemProps: (
+    item: MenuItem,
+    props?: { onClick?: React.MouseEventHandler<HTMLAnchorElement> }
+  ) => MobileMenuItemProps;
+}
+
+/**
+ * Headless state machine of a mobile menu: open / animating state, scroll lock, Escape to
+ * close, focus restoration to the trigger and in-page section links that scroll once the menu
+ * has closed. Render any markup with the returned prop getters; `NavBar` is built on it.
+ *
+ * @remarks
+ * This hook is intended for client-side use only.
+ *
+ * @param options - Open state, active items, section scrolling and labels.
+ * @returns The menu state, actions and prop getters.
+ *
+ * @example
+ * ```tsx
+ * const menu = useMobileMenu();
+ *
+ * <button {...menu.getTriggerProps()}>Menu</button>
+ * <AnimatePresence onExitComplete={menu.onExitComplete}>
+ *   {menu.isOpen && (
+ *     <motion.div {...menu.getPopoverProps()} initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
+ *       <button {...menu.getCloseButtonProps()}>Close</button>
+ *       {menuItems.map((item) => (
+ *         <a key={item.name} {...menu.getItemProps(item)}>{item.name}</a>
+ *       ))}
+ *     </motion.div>
+ *   )}
+ * </AnimatePresence>
+ * ```
+ */
+export function useMobileMenu({
+  isOpen: isOpenProp,
+  defaultOpen = false,
+  onOpenChange,
+  isItemActive,
+  onSectionNavigate,
+  isMobileLayout = true,
+  lockScroll = true,
+  id,
+  labels: labelsProp,
+}: UseMobileMenuOptions = {}): MobileMenuState {
+  const [isOpen, setIsOpen] = useControllableState(isOpenProp, defaultOpen, onOpenChange);
+  const [isAnimating, setIsAnimating] = useState(false);
+  const isAnimatingRef = useRef(isAnimating); // Read by the actions, keeping them stable
+  isAnimatingRef.current = isAnimating;
+  const triggerRef = useRef<HTMLButtonElement>(null);
+  const popoverRef = useRef<HTMLDivElement>(null);
+  const pendingSectionIdRef = useRef<string | null>(null); // Section to scroll to once closed
+  const closeWhenOpenedRef = useRef(false); // A link was activated during the entry animation
+  const { labels } = useLocale({ labels: labelsProp });
+
+  // Generate a unique ID for ARIA controls (useful if multiple menus on a page, though unlikely)
+  const generatedId = React.useId();
+  const popoverId = id ?? generatedId;
+
+  const open = useCallback(() => {
+    if (!isAnimatingRef.current) setIsOpen(true);
+  }, [setIsOpen]);
+  const close = useCallback(() => {
+    if (!isAnimatingRef.current) setIsOpen(false);
+  }, [setIsOpen]);
+  const toggle = useCallback(() => {
+    if (!isAnimatingRef.current) setIsOpen(!isOpen);
+  }, [isOpen, setIsOpen]);
+
+  // Close right away when the layout switches to desktop
+  const wasMobileLayoutRef = useRef(isMobileLayout);
+  useEffect(() => {
+    if (wasMobileLayoutRef.current && !isMobileLayout && isOpen) {
+      setIsOpen(false);
+      setIsAnimating(false); // Reset animation state
+      closeWhenOpenedRef.current = false;
+    }
+    wasMobileLayoutRef.current = isMobileLayout;
+  }, [isMobileLayout, isOpen, setIsOpen]);
+
+  // Effect to lock body scroll when menu is open
+  useEffect(() => {
+    if (!lockScroll || typeof document === "undefined") return;
+    document.body.style.overflow = isOpen ? "hidden" : "";
+    // Cleanup function
+    return () => {
+      document.body.style.overflow = "";
+    };
+  }, [isOpen, lockScroll]);
+
+  // Effect for 'Escape' key to close menu
+  useEffect(() => {
+    if (!isOpen || typeof document === "undefined") return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") close();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [isOpen, close]);
+
+  /** Sets `isAnimating` to true when popover animation starts. */
+  const handleAnimationStart = useCallback(() => setIsAnimating(true), []);
+  /**
+   * Sets `isAnimating` to false once the popover entry animation completes, then closes the
+   * menu if a link was activated meanwhile.
+   */
+  const handleAnimationComplete = useCallback(
+    (definition: unknown) => {
+      if (definition !== "visible") return;
+      setIsAnimating(false);
+      if (closeWhenOpenedRef.current) {
+        closeWhenOpenedRef.current = false;
+        setIsOpen(false);
+      }
+    },
+    [setIsOpen]
+  );
+
+  /**
+   * Sets `isAnimating` to false when popover exit animation completes, then scrolls to the
+   * chosen section (which takes focus) or restores focus to the trigger.
+   */
+  const onExitComplete = useCallback(() => {
+    setIsAnimating(false);
+    if (isOpen) return;
+    const sectionId = pendingSectionIdRef.current;
+    pendingSectionIdRef.current = null;
+    if (sectionId && onSectionNavigate) {
+      onSectionNavigate(sectionId);
+    } else if (triggerRef.current) {
+      // Restore focus to the trigger button when the menu is fully closed (after exit animation)
+      triggerRef.current.focus();
+    }
+  }, [isOpen, onSectionNavigate]);
+
+  /**
+   * Closes the menu on link activation; in-page section links scroll after it has closed.
+   * Mid-animation, the menu closes once its entry animation settles, or keeps closing.
+   */
+  const handleNavigate = useCallback(
+    (event: React.MouseEvent<HTMLAnchorElement>, item: MenuItem) => {
+      if (item.disabled) return;
+      const sectionId = onSectionNavigate ? getClickedSectionId(event, item.href) : null;
+      if (sectionId) {
+        event.preventDefault(); // Even mid-animation, so the browser doesn't jump
+        pendingSectionIdRef.current = sectionId;
+      }
+      if (!isAnimatingRef.current) {
+        setIsOpen(false);
+      } else if (isOpen) {
+        closeWhenOpenedRef.current = true; // Opening: close once the entry animation settles
+      } // Otherwise already closing: the section is scrolled to once the exit completes
+    },
+    [isOpen, onSectionNavigate, setIsOpen]
+  );
+
+  const getTriggerProps: MobileMenuState["getTriggerProps"] = ({ onClick } = {}) => ({
+    ref: triggerRef,
+    type: "button",
+    onClick: (event) => {
+      onClick?.(event);
+      if (!event.defaultPrevented) toggle();
+    },
+    disabled: isAnimating,
+    "aria-label": labels.openMenu,
+    "aria-expanded": isOpen,
+    "aria-controls": popoverId,
+  });
+
+  const getPopoverProps: MobileMenuState["getPopoverProps"] = () => ({
+    ref: popoverRef,
+    id: popoverId,
+    role: "dialog",
+    "aria-modal": true,
+    "aria-label": labels.mobileNavigation,
+    onAnimationStart: handleAnimationStart,
+    onAnimationComplete: handleAnimationComplete,
+  });
+
+  const getCloseButtonProps: MobileMenuState["getCloseButtonProps"] = ({ onClick } = {}) => ({
+    type: "button",
+    onClick: (event) => {
+      onClick?.(event);
+      if (!event.defaultPrevented) close();
+    },
+    disabled: isAnimating,
+    "aria-label": labels.closeMenu,
+  });
+
+  const getItemProps: MobileMenuState["getItemProps"] = (item, { onClick } = {}) => ({
+    href: item.disabled ? undefined : item.href,
+    onClick: (event) => {
+      onClick?.(event);
+      handleNavigate(event, item);
+    },
+    "aria-current": isItemActive && isMenuItemActive(item, isItemActive) ? "page" : undefined,
+    "aria-disabled": item.disabled ? true : undefined,
+    ...(item.external && !item.disabled
+      ? { target: "_blank" as const, rel: "noopener noreferrer" }
+      : undefined),
+  });
+
+  return {
+    isOpen,
+    isAnimating,
+    open,
+    close,
+    toggle,
+    popoverId,
+    triggerRef,
+    popoverRef,
+    onExitComplete,
+    getTriggerProps,
+    getPopoverProps,
+    getCloseButtonProps,
+    getItemProps,
+  };
+}
@@ -0,0 +1,533 @@
+"use client"; // Indicate client-side hook
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useScroll, useMotionValueEvent, useTransform, type MotionValue } from "framer-motion"; // Peer dependency
+import type {
+  HideOnScrollMode,
+  HideOnScrollOptions,
+  MenuItem,
+  RouteMatch,
+} from "../components/NavBar";
+import {
+  useLinkAdapter,
+  useWarnOnDefaultLinkAdapterInNext,
+  type LinkAdapter,
+} from "../components/LinkProvider";
+import { useThemeState } from "../components/ThemeProvider";
+import { resolveThemedValue, useNavBarTheme, type NavBarTheme } from "../components/NavBarTheme";
+import {
+  useShouldReduceMotion,
+  type ReducedMotionPolicy,
+} from "../components/ReducedMotionProvider";
+import { useLocale, type NavBarLabels } from "../components/LocaleProvider";
+import { useScrollspy, type ScrollspyOptions } from "./useScrollspy";
+import { useScrollToHashOnNavigate } from "./useScrollToHashOnNavigate";
+import { useSyncHash } from "./useSyncHash";
+import { useLocationPathname } from "./useLocationPathname";
+import { useControllableState } from "./useControllableState";
+import { useMediaQuery, useMediaQueryState } from "./useMediaQuery";
+import { useMobileMenu, type MobileMenuState } from "./useMobileMenu";
+import { getClickedSectionId, navigateToSection, scrollToElement } from "../utils/scrollToSection";
+import {
+  createActiveMatcher,
+  flattenMenuItems,
+  getCurrentPageSectionId,
+  isMenuItemActive,
+  resolveMenuItems,
+} from "../utils/menuItems";
+
+/** Default pixels scrolled in one event before hide-on-scroll toggles. */
+const DEFAULT_HIDE_SENSITIVITY = 10;
+/** Default height (px) of the top-edge zone revealing the hidden bar on hover. */
+const DEFAULT_REVEAL_ZONE = 48;
+/** Default viewport width (px) at which the desktop layout starts: Tailwind's `md` breakpoint. */
+const DEFAULT_MOBILE_BREAKPOINT = 768;
+
+/** Builds the media query matching the mobile layout from a `mobileBreakpoint` value. */
+const getMobileMediaQuery = (breakpoint: number | string): string =>
+  typeof breakpoint === "number" ? `not all and (min-width: ${breakpoint}px)` : breakpoint;
+
+/**
+ * Options for the `useNavBar` hook. They mirror the `NavBar` props of the same names.
+ */
+export interface UseNavBarOptions {
+  /** The navigation's menu items. */
+  menuItems: MenuItem[];
+  /**
+   * Scroll Y position (px) at which the glass background transition starts.
+   * @default 0
+   */
+  scrollThreshold?: number;
+  /**
+   * Range (px) over which the glass background transition occurs.
+   * @default 100
+   */
+  scrollTransitionRange?: number;
+  /**
+   * Whether scrollspy highlights the items whose section is in view.
+   * @default true
+   */
+  enableScrollspy?: boolean;
+  /** Scrollspy options; sections are observed within `scrollContainerRef` unless they set a root. */
+  scrollspyOptions?: ScrollspyOptions;
+  /**
+   * How non-hash items are matched against the current pathname.
+   * @default "exact"
+   */
+  routeMatch?: RouteMatch;
+  /** The current pathname. Defaults to the link adapter's `usePathname`. */
+  pathname?: string | null;
+  /**
+   * Scroll to the URL hash section after navigating to a new route.
+   * @default true
+   */
+  scrollToHashOnNavigate?: boolean;
+  /**
+   * Whether section links scroll smoothly below the bar (see `getItemProps`).
+   * @default true
+   */
+  smoothScroll?: boolean;
+  /**
+   * Extra space (px) left between the bar and a section scrolled into view.
+   * @default 0
+   */
+  scrollOffset?: number;
+  /**
+   * Reflect the active section in the URL hash while scrolling.
+   * @default false
+   */
+  syncHash?: boolean;
+  /** Link adapter providing `usePathname`. Defaults to the nearest `LinkProvider`'s. */
+  linkAdapter?: LinkAdapter;
+  /**
+   * Viewport width (px) at which the desktop layout starts, or a media query matching the
+   * mobile layout.
+   * @default 768
+   */
+  mobileBreakpoint?: number | string;
+  /**
+   * Use the mobile layout at any viewport width, e.g. while a desktop menu has no room.
+   * @default false
+   */
+  forceMobileLayout?: boolean;
+  /** Design token overrides, merged over the nearest `NavBarThemeProvider`'s. */
+  theme?: Partial<NavBarTheme>;
+  /** Motion policy. Defaults to the nearest `ReducedMotionProvider`'s. */
+  reducedMotion?: ReducedMotionPolicy;
+  /** Labels overriding the nearest `LocaleProvider`'s. */
+  labels?: Partial<NavBarLabels>;
+  /** Controlled open state of the mobile menu. */
+  mobileMenuOpen?: boolean;
+  /** Called when the mobile menu asks to open or close. */
+  onMobileMenuOpenChange?: (open: boolean) => void;
+  /** Controlled hidden state of the bar, overriding hide-on-scroll. */
+  hidden?: boolean;
+  /** Called when hide-on-scroll (or `hide` / `show`) asks to hide or show the bar. */
+  onHiddenChange?: (hidden: boolean) => void;
+  /** Scrollable element the page scrolls within, instead of the window. */
+  scrollContainerRef?: React.RefObject<HTMLElement>;
+  /**
+   * When the bar hides while scrolling down.
+   * @default "after-threshold"
+   */
+  hideOnScroll?: HideOnScrollMode;
+  /** Sensitivity, start offset and hover-reveal settings for hide-on-scroll. */
+  hideOnScrollOptions?: HideOnScrollOptions;
+  /** Called when the bar actually becomes visible or hidden (including hover reveals). */
+  onVisibilityChange?: (visible: boolean) => void;
+}
+
+/**
+ * Props returned by `getHeaderProps`, for the bar's root element. `style` holds motion values,
+ * so spread them onto a Framer Motion element.
+ */
+export interface NavBarHeaderProps {
+  ref: React.RefObject<HTMLElement>;
+  role: "navigation";
+  "aria-label": string;
+  style: {
+    backgroundColor: MotionValue<string>;
+    backdropFilter: MotionValue<string>;
+    WebkitBackdropFilter: MotionValue<string>;
+  };
+}
+
+/**
+ * Props returned by `getItemProps`, for a menu item's link in the bar.
+ */
+export interface NavBarItemProps {
+  /** The item's `href`; omitted for disabled items, which aren't navigable. */
+  href?: string;
+  onClick: React.MouseEventHandler<HTMLAnchorElement>;
+  "aria-current"?: "page";
+  "aria-disabled"?: true;
+  target?: "_blank";
+  rel?: string;
+}
+
+/**
+ * State, motion values and prop getters returned by `useNavBar`.
+ */
+export interface NavBarState {
+  /** The menu items, with cross-page section links to the current route made in-page. */
+  menuItems: MenuItem[];
+  /** The current pathname (`null` when the router doesn't know it yet). */
+  pathname: string | null;
+  /** The active scrollspy section (or the one named by the URL hash), if any. */
+  activeSectionId: string | null;
+  /** Whether an item itself is active (scrollspy section or current route). */
+  isItemActive: (item: MenuItem) => boolean;
+  /** Whether the bar is hidden, accounting for hover reveals. */
+  isHidden: boolean;
+  /** Shows the bar if it was hidden on scroll. */
+  show: () => void;
+  /** Hides the bar until the user scrolls up or back to the top (or `show` is called). */
+  hide: () => void;
+  /** Whether the mobile layout is in use (`false` until the viewport is known). */
+  isMobileLayout: boolean;
+  /** Whether the viewport matches the mobile breakpoint, whatever `forceMobileLayout` says. */
+  isMobileViewport: boolean;
+  /** Whether the viewport is known: `false` during server rendering and hydration. */
+  isLayoutKnown: boolean;
+  /** Whether motion is reduced. */
+  shouldReduceMotion: boolean;
+  /** Vertical scroll of the window, or of `scrollContainerRef`. */
+  scrollY: MotionValue<number>;
+  /** Glass background color, interpolated from the `glassStart` to the `glassEnd` token. */
+  backgroundColor: MotionValue<string>;
+  /** Glass blur, e.g. `"blur(12px)"`. */
+  backdropFilter: MotionValue<string>;
+  /** Opacity (0–0.08) of the bottom border. */
+  borderOpacity: MotionValue<number>;
+  /** Opacity (0–1) of the shadow. */
+  shadowOpacity: MotionValue<number>;
+  /**
+   * Scrolls to an in-page section below the bar and moves focus to it, updating the URL hash.
+   * `undefined` when `smoothScroll` is off.
+   */
+  scrollToSection?: (id: string) => void;
+  /** The mobile menu, opening and closing with the bar's state and scrolling after it closes. */
+  mobileMenu: MobileMenuState;
+  getHeaderProps: () => NavBarHeaderProps;
+  /**
+   * Props for an item's link in the bar: active state (parents of an active item included) and
+   * smooth scrolling to sections.
+   */
+  getItemProps: (
+    item: MenuItem,
+    props?: { onClick?: React.MouseEventHandler<HTMLAnchorElement> }
+  ) => NavBarItemProps;
+}
+
+/**
+ * Headless behaviour of the NavBar: the scroll-driven glass transition, hide-on-scroll with
+ * hover reveal, scrollspy and route matching from `menuItems`, smooth section scrolling, hash
+ * syncing, the mobile / desktop breakpoint and the mobile menu (see `useMobileMenu`).
+ * Render fully custom markup with the returned state, motion values and prop getters;
+ * `NavBar` is built on it.
+ *
+ * @remarks
+ * This hook is intended for client-side use only.
+ *
+ * @param options - The menu items and behaviour settings.
+ * @returns The bar's state, motion values, mobile menu and prop getters.
+ *
+ * @example
+ * ```tsx
+ * const navBar = useNavBar({ menuItems });
+ *
+ * <motion.header {...navBar.getHeaderProps()} animate={{ y: navBar.isHidden ? "-100%" : 0 }}>
+ *   {navBar.menuItems.map((item) => (
+ *     <a key={item.name} {...navBar.getItemProps(item)}>{item.name}</a>
+ *   ))}
+ *   <button {...navBar.mobileMenu.getTriggerProps()}>Menu</button>
+ * </motion.header>
+ * ```
+ */
+export function useNavBar({
+  menuItems,
+  scrollThreshold = 0,
+  scrollTransitionRange = 100,
+  enableScrollspy = true,
+  scrollspyOptions,
+  routeMatch = "exact",
+  pathname: pathnameProp,
+  scrollToHashOnNavigate = true,
+  smoothScroll = true,
+  scrollOffset = 0,
+  syncHash = false,
+  linkAdapter: linkAdapterProp,
+  mobileBreakpoint = DEFAULT_MOBILE_BREAKPOINT,
+  forceMobileLayout = false,
+  theme: themeProp,
+  reducedMotion,
+  labels: labelsProp,
+  mobileMenuOpen,
+  onMobileMenuOpenChange,
+  hidden,
+  onHiddenChange,
+  scrollContainerRef,
+  hideOnScroll = "after-threshold",
+  hideOnScrollOptions,
+  onVisibilityChange,
+}: UseNavBarOptions): NavBarState {
+  const [isHidden, setIsHidden] = useControllableState(hidden, false, onHiddenChange); // For hide-on-scroll
+  const { resolvedTheme } = useThemeState(); // From the active theme adapter
+  const contextNavBarTheme = useNavBarTheme();
+  const navBarTheme = useMemo(
+    () => ({ ...contextNavBarTheme, ...themeProp }),
+    [contextNavBarTheme, themeProp]
+  );
+  const shouldReduceMotion = useShouldReduceMotion(reducedMotion);
+  const { labels } = useLocale({ labels: labelsProp });
+  const headerRef = useRef<HTMLElement>(null); // Measured by the hover reveal
+  const { scrollY } = useScroll({ container: scrollContainerRef }); // Window, or the given container
+
+  const contextLinkAdapter = useLinkAdapter();
+  const linkAdapter = linkAdapterProp ?? contextLinkAdapter;
+  useWarnOnDefaultLinkAdapterInNext(linkAdapter);
+  const { usePathname = useLocationPathname } = linkAdapter;
+  const routerPathname = usePathname(); // From the router via the link adapter
+  const pathname = pathnameProp ?? routerPathname;
+
+  // Cross-page section links targeting the current route become in-page hash links
+  const resolvedMenuItems = useMemo(
+    () => resolveMenuItems(menuItems, pathname),
+    [menuItems, pathname]
+  );
+
+  // Memoize item IDs for scrollspy to prevent unnecessary re-renders of useScrollspy
+  const scrollspyItemIds = useMemo(
+    () =>
+      enableScrollspy
+        ? flattenMenuItems(resolvedMenuItems) // Include submenu items so parents can show active
+            .map((item) => getCurrentPageSectionId(item.href, pathname)) // Get ID part
+            .filter((id) => id) // Filter out links to other pages or non-section links
+        : [],
+    [resolvedMenuItems, pathname, enableScrollspy]
+  );
+
+  // Sections are observed within the scroll container unless the options name a root
+  const effectiveScrollspyOptions = useMemo(
+    () =>
+      scrollContainerRef ? { root: scrollContainerRef, ...scrollspyOptions } : scrollspyOptions,
+    [scrollspyOptions, scrollContainerRef]
+  );
+
+  // Sections scroll into view below the bar's live height (plus the configured offset)
+  const getSectionScrollOptions = useCallback(
+    () => ({
+      offset: (headerRef.current?.offsetHeight ?? 0) + scrollOffset,
+      instant: shouldReduceMotion,
+      root: scrollContainerRef?.current ?? null,
+    }),
+    [scrollOffset, shouldReduceMotion, scrollContainerRef]
+  );
+  const handleSectionNavigate = useCallback(
+    (id: string) => navigateToSection(id, getSectionScrollOptions()),
+    [getSectionScrollOptions]
+  );
+  const scrollToSection = smoothScroll ? handleSectionNavigate : undefined;
+
+  /** Scrolls to a section named by a back / forward (or other) hash change. */
+  const handleHashNavigate = useCallback(
+    (id: string) => {
+      const element = document.getElementById(id);
+      if (element) scrollToElement(element, getSectionScrollOptions());
+    },
+    [getSectionScrollOptions]
+  );
+
+  const scrollspyActiveId = useScrollspy(scrollspyItemIds, effectiveScrollspyOptions);
+  // With hash sync, the section in the URL is active until scrollspy resolves one
+  const hashSectionId = useSyncHash(
+    scrollspyActiveId,
+    scrollspyItemIds,
+    syncHash && enableScrollspy,
+    handleHashNavigate
+  );
+  const activeSectionId = scrollspyActiveId ?? hashSectionId;
+
+  // Route-aware active state: scrollspy wins while one of the menu's sections is active
+  const isItemActive = useMemo(
+    () =>
+      createActiveMatcher({ menuItems: resolvedMenuItems, activeSectionId, pathname, routeMatch }),
+    [resolvedMenuItems, activeSectionId, pathname, routeMatch]
+  );
+
+  // Land on the target section after following a cross-page section link
+  useScrollToHashOnNavigate(pathname, scrollToHashOnNavigate, getSectionScrollOptions);
+
+  // One media query drives the layout switch, "mobile-only" hiding and the hover reveal.
+  // Its match is null until hydrated, so the server markup doesn't depend on it.
+  const mobileViewportMatch = useMediaQueryState(getMobileMediaQuery(mobileBreakpoint));
+  const isLayoutKnown = mobileViewportMatch !== null;
+  const isMobileViewport = mobileViewportMatch ?? false;
+  const isMobileLayout = isMobileViewport || forceMobileLayout;
+
+  const mobileMenu = useMobileMenu({
+    isOpen: mobileMenuOpen,
+    onOpenChange: onMobileMenuOpenChange,
+    isItemActive,
+    onSectionNavigate: scrollToSection,
+    isMobileLayout, // Closes the menu when the bar switches to the desktop layout
+    labels: labelsProp,
+  });
+
+  // Scroll Hide/Show Logic for the entire NavBar
+  const {
+    sensitivity: scrollDirectionChangeSensitivity = DEFAULT_HIDE_SENSITIVITY, // How many pixels to scroll before changing hide/show state
+    startOffset,
+    revealOnHover = false,
+  } = hideOnScrollOptions ?? {};
+  const canHideOnScroll =
+    hideOnScroll === "always" ||
+    hideOnScroll === "after-threshold" ||
+    (hideOnScroll === "mobile-only" && isMobileViewport);
+
+  useMotionValueEvent(scrollY, "change", (latest) => {
+    const previous = scrollY.getPrevious() ?? 0;
+    const diff = latest - previous;
+    if (!canHideOnScroll) {
+      // Scrolling never hides the bar, but still reveals one hidden with `hide()`
+      if (isHidden && (diff < -scrollDirectionChangeSensitivity || latest <= 0)) {
+        setIsHidden(false);
+      }
+      return;
+    }
+    // Calculate the point at which hiding can start (by default after background transition is mostly complete)
+    const effectiveHideStartThreshold =
+      startOffset ?? (hideOnScroll === "always" ? 0 : scrollThreshold + scrollTransitionRange);
+
+    if (latest > effectiveHideStartThreshold && diff > scrollDirectionChangeSensitivity) {
+      setIsHidden(true); // Scrolling down past threshold
+    } else if (diff < -scrollDirectionChangeSensitivity || latest <= effectiveHideStartThreshold) {
+      setIsHidden(false); // Scrolling up or near top
+    }
+  });
+
+  // Reveal the bar when hiding gets disabled (e.g. "mobile-only" after resizing to desktop)
+  const couldHideOnScrollRef = useRef(canHideOnScroll);
+  useEffect(() => {
+    if (couldHideOnScrollRef.current && !canHideOnScroll) setIsHidden(false);
+    couldHideOnScrollRef.current = canHideOnScroll;
+  }, [canHideOnScroll, setIsHidden]);
+
+  // Desktop hover reveal: the pointer nearing the top edge shows the hidden bar
+  const [isRevealedByHover, setIsRevealedByHover] = useState(false);
+  const revealZone = revealOnHover === true ? DEFAULT_REVEAL_ZONE : revealOnHover || 0;
+  const canRevealOnHover = useMediaQuery("(hover: hover)") && !isMobileViewport && revealZone > 0;
+  useEffect(() => {
+    if (!canRevealOnHover || !isHidden) {
+      setIsRevealedByHover(false);
+      return;
+    }
+    const handlePointerMove = (event: PointerEvent) => {
+      // Measure from the top of the scroll container when the bar sticks inside one
+      const top = scrollContainerRef?.current?.getBoundingClientRect().top ?? 0;
+      const distance = event.clientY - top;
+      const barHeight = headerRef.current?.offsetHeight ?? 0;
+      // Once revealed, the bar stays open while the pointer is over it
+      setIsRevealedByHover(
+        (revealed) =>
+          distance >= 0 && distance <= (revealed ? Math.max(barHeight, revealZone) : revealZone)
+      );
+    };
+    window.addEventListener("pointermove", handlePointerMove);
+    return () => window.removeEventListener("pointermove", handlePointerMove);
+  }, [canRevealOnHover, isHidden, revealZone, scrollContainerRef]);
+
+  const isBarHidden = isHidden && !isRevealedByHover;
+
+  // Report actual visibility changes (not the initial state)
+  const reportedVisibilityRef = useRef(!isBarHidden);
+  useEffect(() => {
+    if (reportedVisibilityRef.current === !isBarHidden) return;
+    reportedVisibilityRef.current = !isBarHidden;
+    onVisibilityChange?.(!isBarHidden);
+  }, [isBarHidden, onVisibilityChange]);
+
+  // Smooth Background Transition Logic based on scrollY
+  const scrollRangeForBgTransition: [number, number] = [
+    scrollThreshold,
+    scrollThreshold + scrollTransitionRange,
+  ];
+  // Start/end colors and blur come from the design tokens (concrete colors, so they can interpolate)
+  const colorScheme = resolvedTheme === "dark" ? "dark" : "light";
+  const baseBgColor = resolveThemedValue(navBarTheme.glassStart, colorScheme);
+  const endBgColor = resolveThemedValue(navBarTheme.glassEnd, colorScheme);
+
+  // Framer Motion `useTransform` for smooth style changes
+  const backgroundColor = useTransform(
+    scrollY,
+    scrollRangeForBgTransition,
+    [baseBgColor, endBgColor],
+    { clamp: true }
+  );
+  const backdropFilter = useTransform(
+    scrollY,
+    scrollRangeForBgTransition,
+    ["blur(0px)", `blur(${navBarTheme.blur}px)`],
+    { clamp: true }
+  ); // Glassmorphism blur
+  const borderOpacity = useTransform(scrollY, scrollRangeForBgTransition, [0, 0.08], {
+    clamp: true,
+  }); // Subtle border
+  const shadowOpacity = useTransform(scrollY, scrollRangeForBgTransition, [0, 1], { clamp: true }); // Shadow for depth
+
+  const show = useCallback(() => setIsHidden(false), [setIsHidden]);
+  const hide = useCallback(() => setIsHidden(true), [setIsHidden]);
+
+  const getHeaderProps: NavBarState["getHeaderProps"] = () => ({
+    ref: headerRef,
+    role: "navigation", // ARIA role for navigation landmark
+    "aria-label": labels.mainNavigation,
+    style: {
+      backgroundColor,
+      backdropFilter,
+      WebkitBackdropFilter: backdropFilter, // For Safari compatibility
+    },
+  });
+
+  const getItemProps: NavBarState["getItemProps"] = (item, { onClick } = {}) => ({
+    href: item.disabled ? undefined : item.href,
+    onClick: (event) => {
+      onClick?.(event);
+      if (item.disabled) return;
+      // In-page section links scroll below the bar instead of the browser's jump
+      const sectionId = scrollToSection ? getClickedSectionId(event, item.href) : null;
+      if (sectionId) {
+        event.preventDefault();
+        scrollToSection?.(sectionId);
+      }
+    },
+    "aria-current": isMenuItemActive(item, isItemActive) ? "page" : undefined,
+    "aria-disabled": item.disabled ? true : undefined,
+    ...(item.external && !item.disabled
+      ? { target: "_blank" as const, rel: "noopener noreferrer" }
+      : undefined),
+  });
+
+  return {
+    menuItems: resolvedMenuItems,
+    pathname,
+    activeSectionId,
+    isItemActive,
+    isHidden: isBarHidden,
+    show,
+    hide,
+    isMobileLayout: isLayoutKnown && isMobileLayout,
+    isMobileViewport,
+    isLayoutKnown,
+    shouldReduceMotion,
+    scrollY,
+    backgroundColor,
+    backdropFilter,
+    borderOpacity,
+    shadowOpacity,
+    scrollToSection,
+    mobileMenu,
+    getHeaderProps,
+    getItemProps,
+  };
+}
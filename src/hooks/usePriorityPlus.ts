@@ -0,0 +1,149 @@
+"use client"; // Indicate client-side hook
+
+import { useEffect, useMemo, useRef, useState, type RefObject } from "react";
+import type { MenuItem } from "../components/NavBar";
+import { getMenuItemKey } from "../utils/menuItems";
+import { getPriorityPlusItems, MORE_ITEM_ID } from "../utils/priorityPlus";
+
+/**
+ * Elements and layout measured by `usePriorityPlus`.
+ * @internal
+ */
+export interface PriorityPlusOptions {
+  /**
+   * Whether priority-plus mode is on and the desktop layout is in use; otherwise every item
+   * is visible.
+   */
+  enabled: boolean;
+  /**
+   * The element spanning the bar, rendered in either layout. Once the menu collapsed, it
+   * expands again when this grows.
+   */
+  barRef: RefObject<HTMLElement>;
+  /**
+   * The menu slots, in order. Their width must not depend on their content
+   * (e.g. `flex-1 min-w-0`), so it reflects the space available to the items.
+   */
+  slotRefs: RefObject<HTMLElement>[];
+  /** The hidden measurement row, holding a `[data-measure-key]` element per item and the More trigger. */
+  measureRef: RefObject<HTMLElement>;
+  /** Distributes items over the slots, one group per slot. */
+  split: (items: MenuItem[]) => MenuItem[][];
+  /**
+   * Whether not even one item fit, kept by the caller so it can hand the layout to the
+   * hamburger menu in the same render.
+   */
+  isCollapsed: boolean;
+  /** Called when the menu collapses, or has room again. */
+  onCollapsedChange: (collapsed: boolean) => void;
+}
+
+/**
+ * Result of `usePriorityPlus`.
+ * @internal
+ */
+export interface PriorityPlusResult {
+  /** Items shown in the bar, in display order. */
+  visibleItems: MenuItem[];
+  /** Items moved into the More dropdown, in display order. */
+  overflowItems: MenuItem[];
+}
+
+/**
+ * Keeps as many top-level items in the desktop bar as fit the measured slots, honouring each
+ * item's `priority`, and reports the rest as overflow. Re-measures with a ResizeObserver when
+ * the bar, the slots or the items' measured widths change. The slots and the measurement row
+ * may unmount while the menu is collapsed; they are observed again once it expands.
+ *
+ * @remarks
+ * This hook is intended for client-side use only. Until the first measurement (and during
+ * server rendering) every item is visible.
+ *
+ * @param items - The top-level items, in display order.
+ * @param options - The measured elements and the slot layout.
+ * @returns The visible and overflowing items.
+ * @internal
+ */
+export function usePriorityPlus(
+  items: MenuItem[],
+  {
+    enabled,
+    barRef,
+    slotRefs,
+    measureRef,
+    split,
+    isCollapsed,
+    onCollapsedChange,
+  }: PriorityPlusOptions
+): PriorityPlusResult {
+  const [visibleKeys, setVisibleKeys] = useState<string[] | null>(null); // null: all visible
+  const collapsedBarWidthRef = useRef<number | null>(null); // Bar width when the menu collapsed
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  const itemsKey = items.map((item) => `${getMenuItemKey(item)}:${item.priority ?? 0}`).join(",");
+
+  // Different items (or re-enabling) may fit again
+  useEffect(() => {
+    collapsedBarWidthRef.current = null;
+    onCollapsedChange(false);
+  }, [enabled, itemsKey, onCollapsedChange]);
+
+  useEffect(() => {
+    const bar = barRef.current;
+    if (!enabled || !bar || typeof ResizeObserver === "undefined") return;
+
+    const update = () => {
+      const barWidth = bar.clientWidth;
+      if (collapsedBarWidthRef.current !== null) {
+        if (barWidth <= collapsedBarWidthRef.current) return; // Still no room
+        collapsedBarWidthRef.current = null;
+        onCollapsedChange(false); // The desktop menu renders again, and is measured once observed
+        return;
+      }
+
+      const measure = measureRef.current;
+      const budgets = slotRefs.map((slotRef) => slotRef.current?.clientWidth ?? 0);
+      if (!measure || budgets.every((budget) => budget === 0)) return; // Desktop menu not displayed
+
+      const gap = parseFloat(getComputedStyle(measure).columnGap) || 0;
+      const widths = new Map<string, number>();
+      measure.querySelectorAll<HTMLElement>("[data-measure-key]").forEach((element) => {
+        widths.set(element.dataset.measureKey ?? "", element.offsetWidth + gap);
+      });
+
+      const currentItems = itemsRef.current;
+      const visibleItems = getPriorityPlusItems(
+        currentItems,
+        (item) => widths.get(getMenuItemKey(item)) ?? 0,
+        widths.get(MORE_ITEM_ID) ?? 0,
+        budgets,
+        split
+      );
+      if (visibleItems.length === 0 && currentItems.length > 0) {
+        collapsedBarWidthRef.current = barWidth;
+        onCollapsedChange(true);
+        return;
+      }
+      const keys = visibleItems.map(getMenuItemKey);
+      setVisibleKeys((previous) =>
+        previous && previous.join(",") === keys.join(",") ? previous : keys
+      );
+    };
+
+    // Observing also delivers an initial measurement
+    const observer = new ResizeObserver(update);
+    [bar, measureRef.current, ...slotRefs.map((slotRef) => slotRef.current)].forEach((element) => {
+      if (element) observer.observe(element);
+    });
+    return () => observer.disconnect();
+  }, [enabled, itemsKey, isCollapsed, barRef, measureRef, slotRefs, split, onCollapsedChange]);
+
+  return useMemo(() => {
+    if (!enabled || !visibleKeys) return { visibleItems: items, overflowItems: [] };
+    const keys = new Set(visibleKeys);
+    return {
+      visibleItems: items.filter((item) => keys.has(getMenuItemKey(item))),
+      overflowItems: items.filter((item) => !keys.has(getMenuItemKey(item))),
+    };
+  }, [enabled, items, visibleKeys]);
+}
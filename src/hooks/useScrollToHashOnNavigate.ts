@@ -0,0 +1,58 @@
+"use client"; // Indicate client-side hook
+
+import { useEffect, useRef } from "react";
+import { readHashId, scrollToElement, type ScrollToSectionOptions } from "../utils/scrollToSection";
+
+/** How long (ms) to keep looking for a late-rendered target section after navigation. */
+const TARGET_LOOKUP_TIMEOUT = 3000;
+
+const getDefaultScrollOptions = (): ScrollToSectionOptions => ({});
+
+/**
+ * Scrolls to the section named by `location.hash` after the route changes.
+ * This makes cross-page section links like '/#services' land on their section once the
+ * destination page has rendered, even when the section mounts a few frames later.
+ *
+ * @remarks
+ * This hook is intended for client-side use only.
+ *
+ * @param pathname - The current pathname; the effect re-runs whenever it changes.
+ * @param enabled - Whether the behaviour is active.
+ * @param getScrollOptions - Returns the offset, container and reduced-motion setting to scroll with,
+ *                           read when the section is found. A new function doesn't re-run the scroll.
+ * @internal
+ */
+export function useScrollToHashOnNavigate(
+  pathname: string | null,
+  enabled = true,
+  getScrollOptions: () => ScrollToSectionOptions = getDefaultScrollOptions
+): void {
+  // Read through a ref so new option getters (offset, reduced motion) don't re-scroll without navigation
+  const getScrollOptionsRef = useRef(getScrollOptions);
+  getScrollOptionsRef.current = getScrollOptions;
+
+  useEffect(() => {
+    if (!enabled || typeof window === "undefined" || typeof document === "undefined") {
+      return;
+    }
+
+    const id = readHashId();
+    if (!id) return;
+
+    const deadline = performance.now() + TARGET_LOOKUP_TIMEOUT;
+    let frame = 0;
+
+    // Poll once per frame until the section exists (or we give up)
+    const scrollWhenReady = () => {
+      const element = document.getElementById(id);
+      if (element) {
+        scrollToElement(element, getScrollOptionsRef.current());
+      } else if (performance.now() < deadline) {
+        frame = requestAnimationFrame(scrollWhenReady);
+      }
+    };
+    frame = requestAnimationFrame(scrollWhenReady);
+
+    return () => cancelAnimationFrame(frame);
+  }, [pathname, enabled]);
+}
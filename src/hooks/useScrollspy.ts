@@ -1,6 +1,13 @@
 "use client"; // Indicate client-side hook
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, type RefObject } from "react";
+import type { ScrollspyStrategy } from "../utils/scrollspy";
+import {
+  resolveScrollspyOptions,
+  trackScrollspy,
+  type ScrollspySnapshot,
+} from "../utils/scrollspyTracker";
+import { useScrollspyRegistry } from "../components/ScrollspyProvider";
 
 /**
  * Options for configuring the IntersectionObserver in useScrollspy.
@@ -21,18 +28,49 @@ export interface ScrollspyOptions {
    * @default 0
    */
   threshold?: number | number[];
+  /**
+   * The scrollable element the sections scroll within, as an element or a ref to one.
+   * Used as the IntersectionObserver `root`, so `rootMargin` is relative to this element.
+   * @see {@link https://developer.mozilla.org/en-US/docs/Web/API/IntersectionObserver/root}
+   * @default null (the viewport)
+   */
+  root?: Element | RefObject<Element> | null;
+  /**
+   * Clear the active ID (return `null`) when no section is in the activation band,
+   * instead of keeping the last active one.
+   * @default false
+   */
+  clearWhenNoneIntersecting?: boolean;
+  /**
+   * Activate the last section once the root is scrolled to the bottom, for short final
+   * sections that can never reach the activation band.
+   * @default true
+   */
+  activateLastAtBottom?: boolean;
+  /**
+   * How the active section is picked: `"topmost"` (highest section in the activation band),
+   * `"most-visible"`, `"closest-to-center"`, `"last-passed"` (last section whose top crossed
+   * the `offset` line), or a custom resolver receiving every tracked section's geometry.
+   * @default "topmost"
+   */
+  strategy?: ScrollspyStrategy;
+  /**
+   * Offset line (px from the top of the root) used by the `"last-passed"` strategy,
+   * typically the height of the fixed navbar.
+   * @default 0
+   */
+  offset?: number;
 }
 
-const DEFAULT_ROOT_MARGIN = "-20% 0px -80% 0px"; // Activates when section is roughly in the middle 60%
-const DEFAULT_THRESHOLD = 0;
-
 /**
  * A React hook that detects which element ID is currently considered "active"
  * in the viewport based on scroll position. It uses the IntersectionObserver API.
  *
  * @remarks
  * This hook is intended for client-side use only.
- * Target elements must have IDs matching the `itemIds` provided.
+ * Target elements must have IDs matching the `itemIds` provided. Elements mounted later
+ * (lazy-loaded, streamed or inside tabs) are picked up, and removed ones are dropped.
+ * For per-section progress and the scroll direction, use `useScrollspyState`.
  *
  * @param itemIds - An array of element IDs (strings, without the '#' prefix) to observe.
  *                  The hook will determine which of these is currently "active".
@@ -56,12 +94,39 @@ const DEFAULT_THRESHOLD = 0;
  */
 export function useScrollspy(itemIds: string[], options?: ScrollspyOptions): string | null {
   const [activeId, setActiveId] = useState<string | null>(null);
-  const observerRef = useRef<IntersectionObserver | null>(null);
-  // Using a Map to store refs allows easy addition/removal if itemIds were dynamic
-  const observedElementsRef = useRef<Map<string, HTMLElement>>(new Map());
+  useScrollspyTracker(itemIds, options, (snapshot) => setActiveId(snapshot.activeId));
+  return activeId;
+}
 
-  // Memoize options to prevent unnecessary effect runs if options object is recreated
-  const memoizedOptions = JSON.stringify(options);
+/**
+ * The observer setup shared by the scrollspy hooks: tracks the target elements as they mount
+ * and unmount, resolves the active section and reports a snapshot on every change and scroll frame.
+ *
+ * @param itemIds - Element IDs (without '#') to track.
+ * @param options - The scrollspy options.
+ * @param onUpdate - Called with each new snapshot. It may change between renders.
+ * @internal
+ */
+export function useScrollspyTracker(
+  itemIds: string[],
+  options: ScrollspyOptions | undefined,
+  onUpdate: (snapshot: ScrollspySnapshot) => void
+): void {
+  const registry = useScrollspyRegistry();
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+  // Kept across effect runs, so changing options doesn't drop the active section
+  const activeIdRef = useRef<string | null>(null);
+
+  // Memoize options to prevent unnecessary effect runs if options object is recreated.
+  // The root and strategy are kept out of the serialized options: elements and functions
+  // can't be stringified. The strategy is read through a ref, so changing it needs no re-run,
+  // except under a provider, where it picks the shared active section the consumer joins.
+  const { root, strategy = "topmost", ...serializableOptions } = options ?? {};
+  const memoizedOptions = JSON.stringify(serializableOptions);
+  const strategyRef = useRef(strategy);
+  strategyRef.current = strategy;
+  const sharedStrategy = registry ? strategy : null;
 
   useEffect(() => {
     // Ensure this code runs only on the client where `document` is available
@@ -69,78 +134,25 @@ export function useScrollspy(itemIds: string[], options?: ScrollspyOptions): str
       return;
     }
 
-    const currentOptions = options || {};
-    const { rootMargin = DEFAULT_ROOT_MARGIN, threshold = DEFAULT_THRESHOLD } = currentOptions;
-
-    // Cleanup previous observer and element references
-    if (observerRef.current) {
-      observerRef.current.disconnect();
-    }
-    observedElementsRef.current.clear();
-
-    // Populate observedElementsRef with current elements
-    itemIds.forEach((id) => {
-      const element = document.getElementById(id);
-      if (element) {
-        observedElementsRef.current.set(id, element);
-      } else {
-        // Optionally console.warn in development for missing elements
-        // console.warn(`[useScrollspy] Element with ID "${id}" not found.`);
-      }
-    });
-
-    // If no elements to observe, do nothing
-    if (observedElementsRef.current.size === 0) {
-      setActiveId(null); // Reset if no elements are found or itemIds is empty
-      return;
-    }
-
-    /**
-     * IntersectionObserver callback.
-     * @param entries - Array of IntersectionObserverEntry objects.
-     */
-    const observerCallback: IntersectionObserverCallback = (entries) => {
-      // Filter for entries that are currently intersecting
-      const intersectingEntries = entries.filter((entry) => entry.isIntersecting);
-
-      if (intersectingEntries.length > 0) {
-        // If multiple are intersecting (e.g., due to rootMargin or threshold array),
-        // typically the one "most visible" or highest on the page is preferred.
-        // Sorting by boundingClientRect.top gives the one closest to the top of viewport.
-        intersectingEntries.sort((a, b) => a.boundingClientRect.top - b.boundingClientRect.top);
-        setActiveId(intersectingEntries[0]!.target.id);
-      } else {
-        // If nothing is intersecting, and you want to clear activeId:
-        // setActiveId(null);
-        // Or, to keep the last activeId until a new one intersects (often preferred):
-        // No change here, activeId remains as is.
-      }
+    // Refs are read here, after the container has mounted
+    const rootElement = root && "current" in root ? root.current : (root ?? null);
+    const trackerOptions = resolveScrollspyOptions(serializableOptions);
+    const handleUpdate = (snapshot: ScrollspySnapshot) => {
+      activeIdRef.current = snapshot.activeId;
+      onUpdateRef.current(snapshot);
     };
 
-    try {
-      observerRef.current = new IntersectionObserver(observerCallback, {
-        rootMargin,
-        threshold,
-      });
-
-      const currentObserver = observerRef.current;
-      observedElementsRef.current.forEach((element) => {
-        currentObserver.observe(element);
-      });
-    } catch (e) {
-      console.error("[useScrollspy] Failed to create or use IntersectionObserver:", e);
-      setActiveId(null); // Reset on error
-    }
-
-    // Cleanup function to disconnect the observer when the component unmounts or dependencies change
-    return () => {
-      if (observerRef.current) {
-        observerRef.current.disconnect();
-      }
-    };
+    // Share the provider's observer when there is one, so every consumer agrees
+    const track = registry ? registry.track : trackScrollspy;
+    return track({
+      itemIds,
+      options: trackerOptions,
+      root: rootElement,
+      getStrategy: () => strategyRef.current,
+      initialActiveId: activeIdRef.current,
+      onUpdate: handleUpdate,
+    });
     // Using itemIds.join(',') as a simple way to make the array a dependency.
     // JSON.stringify(options) for options object.
-  }, [itemIds.join(","), memoizedOptions]);
-
-  return activeId;
+  }, [itemIds.join(","), memoizedOptions, root, registry, sharedStrategy]);
 }
@@ -0,0 +1,141 @@
+"use client"; // Indicate client-side hook
+
+import { useRef, useState } from "react";
+import { useScrollspyTracker, type ScrollspyOptions } from "./useScrollspy";
+
+/**
+ * Scroll state of a single section tracked by `useScrollspyState`.
+ */
+export interface ScrollspySectionState {
+  /** Whether the section is inside the activation band (the root shrunk by `rootMargin`). */
+  isIntersecting: boolean;
+  /** Share (0–1) of the section's height currently visible within the root. */
+  visibleRatio: number;
+  /** Whether the section's bottom has scrolled past the `offset` line. */
+  isPassed: boolean;
+  /**
+   * Progress (0–1) of the `offset` line through the section: `0` until the section's top
+   * reaches the line, `1` once its bottom has passed it.
+   */
+  progress: number;
+}
+
+/**
+ * Direction of the last scroll movement, or `null` before the first one.
+ */
+export type ScrollDirection = "up" | "down" | null;
+
+/**
+ * The state returned by `useScrollspyState`.
+ */
+export interface ScrollspyState {
+  /** The active section ID, resolved exactly as `useScrollspy` does. */
+  activeId: string | null;
+  /** The section that was active before `activeId`, or `null`. */
+  previousActiveId: string | null;
+  /** Direction of the last scroll movement. */
+  direction: ScrollDirection;
+  /** Per-section state, keyed by ID. Sections without an element (yet) are absent. */
+  sections: Record<string, ScrollspySectionState>;
+}
+
+const initialState: ScrollspyState = {
+  activeId: null,
+  previousActiveId: null,
+  direction: null,
+  sections: {},
+};
+
+/** Whether two section maps hold the same IDs with the same values. */
+const areSectionsEqual = (
+  a: Record<string, ScrollspySectionState>,
+  b: Record<string, ScrollspySectionState>
+): boolean => {
+  const ids = Object.keys(a);
+  if (ids.length !== Object.keys(b).length) return false;
+  return ids.every((id) => {
+    const sectionA = a[id];
+    const sectionB = b[id];
+    return (
+      sectionA !== undefined &&
+      sectionB !== undefined &&
+      sectionA.isIntersecting === sectionB.isIntersecting &&
+      sectionA.visibleRatio === sectionB.visibleRatio &&
+      sectionA.isPassed === sectionB.isPassed &&
+      sectionA.progress === sectionB.progress
+    );
+  });
+};
+
+/**
+ * A companion to `useScrollspy` returning the full scroll state: the active and previously
+ * active section, the scroll direction and, for every tracked section, its visibility and
+ * reading progress. Useful for reading-progress indicators and animated tables of contents.
+ *
+ * @remarks
+ * Uses the same observer setup and options as `useScrollspy`, so both agree on the active ID.
+ * The state updates at most once per animation frame while scrolling, and only when it changes.
+ *
+ * @param itemIds - An array of element IDs (strings, without the '#' prefix) to track.
+ * @param options - Optional configuration, as for `useScrollspy`. `offset` also sets the line
+ *                  used for `isPassed` and `progress`.
+ * @returns The current {@link ScrollspyState}.
+ *
+ * @example
+ * ```tsx
+ * const { activeId, sections } = useScrollspyState(["intro", "usage", "api"], { offset: 80 });
+ *
+ * <a href="#usage" aria-current={activeId === "usage" ? "location" : undefined}>
+ *   Usage
+ *   <progress value={sections.usage?.progress ?? 0} max={1} />
+ * </a>
+ * ```
+ */
+export function useScrollspyState(itemIds: string[], options?: ScrollspyOptions): ScrollspyState {
+  const [state, setState] = useState<ScrollspyState>(initialState);
+  const lastScrollTopRef = useRef<number | null>(null);
+  const offset = options?.offset ?? 0;
+
+  useScrollspyTracker(itemIds, options, ({ activeId, sections, scrollTop }) => {
+    const lastScrollTop = lastScrollTopRef.current;
+    lastScrollTopRef.current = scrollTop;
+
+    const sectionStates: Record<string, ScrollspySectionState> = {};
+    sections.forEach(({ id, isIntersecting, visibleRatio, top, bottom, height }) => {
+      sectionStates[id] = {
+        isIntersecting,
+        visibleRatio,
+        isPassed: bottom <= offset,
+        progress:
+          height > 0 ? Math.max(0, Math.min(1, (offset - top) / height)) : top <= offset ? 1 : 0,
+      };
+    });
+
+    setState((previous) => {
+      let direction = previous.direction;
+      if (lastScrollTop !== null && scrollTop !== lastScrollTop) {
+        direction = scrollTop > lastScrollTop ? "down" : "up";
+      }
+      const previousActiveId =
+        activeId !== previous.activeId ? previous.activeId : previous.previousActiveId;
+      const sectionsChanged = !areSectionsEqual(previous.sections, sectionStates);
+
+      if (
+        !sectionsChanged &&
+        activeId === previous.activeId &&
+        previousActiveId === previous.previousActiveId &&
+        direction === previous.direction
+      ) {
+        return previous; // Nothing changed: skip the re-render
+      }
+      return {
+        activeId,
+        previousActiveId,
+        direction,
+        sections: sectionsChanged ? sectionStates : previous.sections,
+      };
+    });
+  });
+
+  return state;
+}
@@ -0,0 +1,65 @@
+"use client"; // Indicate client-side hook
+
+import { useEffect, useRef, useState } from "react";
+import { readHashId } from "../utils/scrollToSection";
+
+/**
+ * Keeps the URL hash in sync with the active scrollspy section, both ways.
+ * The active section is written with `history.replaceState`, so scrolling adds no history
+ * entries and triggers no router navigation (Next.js included, as its history state is kept).
+ * Hash changes from back / forward or plain links are reported to `onHashNavigate`.
+ *
+ * @remarks
+ * This hook is intended for client-side use only.
+ *
+ * @param activeId - The active section ID, reflected in the URL while scrolling.
+ * @param itemIds - The tracked section IDs; hashes naming other elements are ignored.
+ * @param enabled - Whether the behaviour is active.
+ * @param onHashNavigate - Called with the section named by a new hash, e.g. to scroll to it.
+ * @returns The tracked section named by the URL hash, usable as the active section until
+ *          scrollspy resolves one, or `null`.
+ * @internal
+ */
+export function useSyncHash(
+  activeId: string | null,
+  itemIds: string[],
+  enabled: boolean,
+  onHashNavigate?: (id: string) => void
+): string | null {
+  const [hashId, setHashId] = useState<string | null>(null);
+  const onHashNavigateRef = useRef(onHashNavigate);
+  onHashNavigateRef.current = onHashNavigate;
+  const itemIdsKey = itemIds.join(",");
+
+  // Read the initial hash, then follow back / forward and other hash changes
+  useEffect(() => {
+    if (!enabled || typeof window === "undefined") {
+      setHashId(null);
+      return;
+    }
+    const trackedIds = new Set(itemIdsKey.split(","));
+    const getTrackedHashId = () => {
+      const id = readHashId();
+      return id && trackedIds.has(id) ? id : null;
+    };
+
+    setHashId(getTrackedHashId());
+    const handleHashChange = () => {
+      const id = getTrackedHashId();
+      setHashId(id);
+      if (id) onHashNavigateRef.current?.(id);
+    };
+    window.addEventListener("hashchange", handleHashChange);
+    return () => window.removeEventListener("hashchange", handleHashChange);
+  }, [enabled, itemIdsKey]);
+
+  // Reflect the active section in the URL while scrolling
+  useEffect(() => {
+    if (!enabled || !activeId || typeof window === "undefined") return;
+    if (readHashId() === activeId) return;
+    // replaceState doesn't fire `hashchange`, so this never loops back into the listener
+    window.history.replaceState(window.history.state, "", `#${encodeURIComponent(activeId)}`);
+  }, [enabled, activeId]);
+
+  return hashId;
+}
@@ -1,13 +1,80 @@
 // Export Components
 export { NavBar } from "./components/NavBar";
-export type { NavBarProps, MenuItem } from "./components/NavBar"; // Export types
+export type {
+  NavBarProps,
+  NavBarHandle,
+  NavBarLayout,
+  MenuSemantics,
+  MobileMenuVariant,
+  MenuItem,
+  RouteMatch,
+  HideOnScrollMode,
+  HideOnScrollOptions,
+} from "./components/NavBar"; // Export types
 
 export { Logo } from "./components/Logo";
 export type { LogoProps } from "./components/Logo"; // Export types
 
+export { LinkProvider, DefaultLink, defaultLinkAdapter } from "./components/LinkProvider";
+export type {
+  LinkProviderProps,
+  LinkAdapter,
+  LinkComponent,
+  LinkComponentProps,
+} from "./components/LinkProvider";
+
+export { ThemeProvider, ThemeAdapterProvider, useThemeState } from "./components/ThemeProvider";
+export type {
+  ThemeProviderProps,
+  ThemeAdapterProviderProps,
+  ThemeAdapter,
+  ThemeState,
+  ThemePreference,
+  ResolvedTheme,
+} from "./components/ThemeProvider";
+
 export { DarkModeToggle } from "./components/DarkModeToggle";
-// No specific props needed for DarkModeToggle usually
+export type { DarkModeToggleProps } from "./components/DarkModeToggle"; // Export types
+
+export { NavBarThemeProvider, defaultNavBarTheme } from "./components/NavBarTheme";
+export type { NavBarTheme, NavBarThemeProviderProps, ThemedValue } from "./components/NavBarTheme"; // Export types
+
+export { ReducedMotionProvider, useShouldReduceMotion } from "./components/ReducedMotionProvider";
+export type {
+  ReducedMotionProviderProps,
+  ReducedMotionPolicy,
+} from "./components/ReducedMotionProvider"; // Export types
+
+export { LocaleProvider, defaultNavBarLabels } from "./components/LocaleProvider";
+export type { LocaleProviderProps, NavBarLabels, Direction } from "./components/LocaleProvider"; // Export types
+
+export { ScrollspyProvider } from "./components/ScrollspyProvider";
+export type { ScrollspyProviderProps } from "./components/ScrollspyProvider"; // Export types
 
 // Export Hooks
 export { useScrollspy } from "./hooks/useScrollspy";
 export type { ScrollspyOptions } from "./hooks/useScrollspy"; // Export types
+export type { ScrollspyStrategy, ScrollspyResolver, ScrollspySection } from "./utils/scrollspy";
+export { useScrollspyState } from "./hooks/useScrollspyState";
+export type {
+  ScrollspyState,
+  ScrollspySectionState,
+  ScrollDirection,
+} from "./hooks/useScrollspyState";
+export { useLocationPathname } from "./hooks/useLocationPathname";
+export { useNavBar } from "./hooks/useNavBar";
+export type {
+  UseNavBarOptions,
+  NavBarState,
+  NavBarHeaderProps,
+  NavBarItemProps,
+} from "./hooks/useNavBar"; // Export types
+export { useMobileMenu } from "./hooks/useMobileMenu";
+export type {
+  UseMobileMenuOptions,
+  MobileMenuState,
+  MobileMenuTriggerProps,
+  MobileMenuPopoverProps,
+  MobileMenuCloseButtonProps,
+  MobileMenuItemProps,
+} from "./hooks/useMobileMenu"; // Export types
@@ -0,0 +1,65 @@
+"use client";
+
+// next-themes adapter, published as "@venkatasudha/components/next-themes" so the main entry
+// doesn't depend on next-themes.
+import React from "react";
+import { useTheme } from "next-themes"; // Peer dependency
+import {
+  ThemeAdapterProvider,
+  type ResolvedTheme,
+  type ThemeAdapter,
+  type ThemePreference,
+} from "./components/ThemeProvider";
+
+/**
+ * Props for the NextThemesAdapter component.
+ */
+export interface NextThemesAdapterProps {
+  children: React.ReactNode;
+}
+
+const toPreference = (theme: string | undefined): ThemePreference | undefined =>
+  theme === "light" || theme === "dark" || theme === "system" ? theme : undefined;
+
+const toResolvedTheme = (theme: string | undefined): ResolvedTheme | undefined =>
+  theme === undefined ? undefined : theme === "dark" ? "dark" : "light";
+
+/**
+ * Bridges next-themes to the library's theme adapter.
+ * Render it inside next-themes' `ThemeProvider`, around the NavBar (or the whole app).
+ *
+ * @example
+ * ```tsx
+ * <ThemeProvider attribute="class" enableSystem>
+ *   <NextThemesAdapter>
+ *     <NavBar menuItems={menuItems} />
+ *   </NextThemesAdapter>
+ * </ThemeProvider>
+ * ```
+ */
+export const NextThemesAdapter: React.FC<NextThemesAdapterProps> = ({ children }) => {
+  const { theme, resolvedTheme, setTheme } = useTheme();
+  const stateRef = React.useRef({ theme, resolvedTheme, setTheme });
+  const listenersRef = React.useRef(new Set<() => void>());
+
+  // Stable adapter reading the latest next-themes state
+  const adapter = React.useMemo<ThemeAdapter>(
+    () => ({
+      getTheme: () => toPreference(stateRef.current.theme),
+      getResolvedTheme: () => toResolvedTheme(stateRef.current.resolvedTheme),
+      setTheme: (nextTheme) => stateRef.current.setTheme(nextTheme),
+      subscribe: (listener) => {
+        listenersRef.current.add(listener);
+        return () => listenersRef.current.delete(listener);
+      },
+    }),
+    []
+  );
+
+  React.useEffect(() => {
+    stateRef.current = { theme, resolvedTheme, setTheme };
+    listenersRef.current.forEach((listener) => listener());
+  }, [theme, resolvedTheme, setTheme]);
+
+  return <ThemeAdapterProvider adapter={adapter}>{children}</ThemeAdapterProvider>;
+};
@@ -0,0 +1,30 @@
+"use client";
+
+// Next.js adapters, published as "@venkatasudha/components/next" so the main entry
+// stays free of Next-specific imports.
+import React from "react";
+import Link from "next/link"; // Peer dependency
+import { usePathname } from "next/navigation"; // Peer dependency
+import type { LinkAdapter, LinkComponentProps } from "./components/LinkProvider";
+
+/**
+ * Link component backed by `next/link`, for client-side navigation and prefetching.
+ */
+export const NextLink = React.forwardRef<HTMLAnchorElement, LinkComponentProps>(
+  function NextLink(props, ref) {
+    return <Link ref={ref} {...props} />;
+  }
+);
+
+/**
+ * Link adapter for Next.js (App Router or Pages Router on Next >= 13).
+ *
+ * @example
+ * ```tsx
+ * <NavBar menuItems={menuItems} linkAdapter={nextLinkAdapter} />
+ * ```
+ */
+export const nextLinkAdapter: LinkAdapter = {
+  Link: NextLink,
+  usePathname,
+};
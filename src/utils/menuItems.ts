@@ -0,0 +1,237 @@
+import type { MenuItem, RouteMatch } from "../components/NavBar";
+
+/**
+ * Flattens a (possibly nested) list of menu items, depth-first, parents before their children.
+ * @param items - The menu items to flatten.
+ * @internal
+ */
+export const flattenMenuItems = (items: MenuItem[]): MenuItem[] =>
+  items.flatMap((item) => [item, ...(item.children ? flattenMenuItems(item.children) : [])]);
+
+/**
+ * Whether an item has a submenu to render.
+ * @internal
+ */
+export const hasSubmenu = (item: MenuItem): item is MenuItem & { children: MenuItem[] } =>
+  Array.isArray(item.children) && item.children.length > 0;
+
+/**
+ * Splits top-level items into the left and right groups of the centered-logo layout.
+ * Items with an explicit `placement` go to that side; the rest are split by position.
+ *
+ * @param items - The top-level menu items.
+ * @param splitIndex - Number of items (by position) placed left of the logo.
+ *                     Defaults to half the items, rounded up.
+ * @internal
+ */
+export const splitMenuItems = (
+  items: MenuItem[],
+  splitIndex: number = Math.ceil(items.length / 2)
+): [MenuItem[], MenuItem[]] => {
+  const left: MenuItem[] = [];
+  const right: MenuItem[] = [];
+  items.forEach((item, index) => {
+    const side = item.placement ?? (index < splitIndex ? "left" : "right");
+    (side === "left" ? left : right).push(item);
+  });
+  return [left, right];
+};
+
+/**
+ * Normalizes a pathname for comparison by removing the trailing slash (except for the root).
+ * @internal
+ */
+const normalizePathname = (pathname: string): string =>
+  pathname.length > 1 && pathname.endsWith("/") ? pathname.slice(0, -1) : pathname;
+
+/**
+ * The section targeted by a hash link.
+ * @internal
+ */
+export interface SectionTarget {
+  /** The route the section lives on, or `null` for a bare '#id' link (the current page). */
+  pathname: string | null;
+  /** The section's element ID (without '#'). */
+  id: string;
+}
+
+/**
+ * Parses a section link such as '#about' or '/#about' (a section on another route).
+ * Returns `null` for links without a hash or links to other origins.
+ * @internal
+ */
+export const parseSectionHref = (href: string | undefined): SectionTarget | null => {
+  if (!href) return null;
+  const hashIndex = href.indexOf("#");
+  const id = hashIndex >= 0 ? href.slice(hashIndex + 1) : "";
+  if (!id) return null;
+
+  const path = href.slice(0, hashIndex).split("?")[0]!;
+  if (path === "") return { pathname: null, id };
+  if (!path.startsWith("/") || path.startsWith("//")) return null;
+  return { pathname: normalizePathname(path), id };
+};
+
+/**
+ * Returns the section ID (without '#') an href targets on the current page, or an empty string
+ * when it is not a section link or the section lives on another route.
+ *
+ * @param href - The menu item href.
+ * @param pathname - The current pathname, or `null` when unknown (only bare '#id' links then match).
+ * @internal
+ */
+export const getCurrentPageSectionId = (
+  href: string | undefined,
+  pathname: string | null | undefined
+): string => {
+  const target = parseSectionHref(href);
+  if (!target) return "";
+  if (target.pathname === null) return target.id;
+  return pathname != null && target.pathname === normalizePathname(pathname) ? target.id : "";
+};
+
+/**
+ * Rewrites cross-page section links that point at the current route to bare hash links,
+ * so they scroll in place and participate in scrollspy. Other links are returned unchanged.
+ * @internal
+ */
+export const resolveMenuItems = (
+  items: MenuItem[],
+  pathname: string | null | undefined
+): MenuItem[] =>
+  items.map((item) => {
+    const target = parseSectionHref(item.href);
+    const href =
+      target && target.pathname !== null && getCurrentPageSectionId(item.href, pathname)
+        ? `#${target.id}`
+        : item.href;
+    return {
+      ...item,
+      href,
+      children: item.children ? resolveMenuItems(item.children, pathname) : undefined,
+    };
+  });
+
+/**
+ * Predicate deciding whether a single menu item (ignoring its children) is active.
+ * @internal
+ */
+export type MenuItemActiveMatcher = (item: MenuItem) => boolean;
+
+/**
+ * Determines whether a menu item is active according to the given matcher.
+ * A parent item is considered active when any of its descendants is active.
+ *
+ * @param item - The menu item to check.
+ * @param matcher - Predicate for a single item, usually created by `createActiveMatcher`.
+ * @internal
+ */
+export const isMenuItemActive = (item: MenuItem, matcher: MenuItemActiveMatcher): boolean =>
+  matcher(item) ||
+  (hasSubmenu(item) && item.children.some((child) => isMenuItemActive(child, matcher)));
+
+/**
+ * Returns the pathname part of a route href (e.g. '/blog?page=2' → '/blog'),
+ * or `null` for hash links, section links and links to other origins.
+ * @internal
+ */
+export const getRoutePathname = (href: string | undefined): string | null => {
+  if (!href || !href.startsWith("/") || href.startsWith("//") || href.includes("#")) return null;
+  return normalizePathname(href.split("?")[0]!);
+};
+
+/**
+ * Checks whether a menu item's route matches the current pathname.
+ *
+ * @param item - The menu item to check.
+ * @param pathname - The current pathname.
+ * @param defaultMatch - The match mode used when the item does not define `match`.
+ * @internal
+ */
+export const matchesRoute = (
+  item: MenuItem,
+  pathname: string,
+  defaultMatch: RouteMatch
+): boolean => {
+  const match = item.match ?? defaultMatch;
+  if (typeof match === "function") return match(pathname, item);
+
+  const itemPathname = getRoutePathname(item.href);
+  if (itemPathname === null) return false;
+  const currentPathname = normalizePathname(pathname);
+
+  if (match === "prefix" && itemPathname !== "/") {
+    // The root only ever matches exactly, otherwise it would be active on every page
+    return currentPathname === itemPathname || currentPathname.startsWith(`${itemPathname}/`);
+  }
+  return currentPathname === itemPathname;
+};
+
+/**
+ * Options for `createActiveMatcher`.
+ * @internal
+ */
+export interface ActiveMatcherOptions {
+  /** All menu items, used to decide whether scrollspy takes precedence. */
+  menuItems: MenuItem[];
+  /** The ID (without '#') of the currently active scrollspy section. */
+  activeSectionId?: string | null;
+  /** The current pathname, or `null` to disable route matching. */
+  pathname?: string | null;
+  /** The match mode used for items without their own `match`. */
+  routeMatch: RouteMatch;
+}
+
+/**
+ * Creates the predicate used to highlight menu items.
+ * When the active scrollspy section corresponds to one of the menu items, hash matching
+ * takes precedence; otherwise items are matched against the current route.
+ * @internal
+ */
+export const createActiveMatcher = ({
+  menuItems,
+  activeSectionId,
+  pathname,
+  routeMatch,
+}: ActiveMatcherOptions): MenuItemActiveMatcher => {
+  const isActiveSection = (item: MenuItem) =>
+    !!activeSectionId && getCurrentPageSectionId(item.href, pathname) === activeSectionId;
+
+  if (flattenMenuItems(menuItems).some(isActiveSection)) {
+    return isActiveSection;
+  }
+  if (pathname == null) {
+    return () => false;
+  }
+  return (item) => matchesRoute(item, pathname, routeMatch);
+};
+
+/**
+ * Groups submenu items by their `group` heading, preserving first-seen order.
+ * Items without a `group` are collected under an `undefined` heading.
+ * @internal
+ */
+export const groupMenuItems = (
+  items: MenuItem[]
+): { heading: string | undefined; items: MenuItem[] }[] => {
+  const groups: { heading: string | undefined; items: MenuItem[] }[] = [];
+  items.forEach((item) => {
+    const existing = groups.find((group) => group.heading === item.group);
+    if (existing) {
+      existing.items.push(item);
+    } else {
+      groups.push({ heading: item.group, items: [item] });
+    }
+  });
+  return groups;
+};
+
+/**
+ * Builds a stable identifier from a menu item, used for React keys, `layoutId`s and the
+ * `data-*` attributes matching rendered items: its `id`, or its name and href, with whitespace
+ * runs replaced by hyphens so keys can be joined with spaces. Other characters are kept as-is,
+ * so the key is only compared as a string, never used in a CSS selector or element ID.
+ * @internal
+ */
+export const getMenuItemKey = (item: MenuItem): string =>
+  (item.id ?? (item.href ? `${item.name}-${item.href}` : item.name)).replace(/\s+/g, "-");
@@ -0,0 +1,56 @@
+import type { MenuItem } from "../components/NavBar";
+
+/**
+ * `id` of the synthesized "More" item holding the items moved out of the bar in priority-plus
+ * mode. Also keys the More trigger's entry in the measurement row.
+ * @internal
+ */
+export const MORE_ITEM_ID = "vs-more";
+
+/**
+ * Picks the top-level items that stay in the desktop bar in priority-plus mode.
+ * When everything fits, every item is kept. Otherwise items are kept by descending `priority`
+ * (display order among equals) for as long as they fit next to the More trigger, which ends
+ * the last slot.
+ *
+ * @param items - The top-level items, in display order.
+ * @param getWidth - Measured width (px) of an item, including the gap after it.
+ * @param moreWidth - Measured width (px) of the More trigger, including its gap.
+ * @param budgets - Available width (px) of each menu slot, in order.
+ * @param split - Distributes items over the slots, one group per budget.
+ * @returns The kept items in display order; empty when not even one fits.
+ * @internal
+ */
+export const getPriorityPlusItems = (
+  items: MenuItem[],
+  getWidth: (item: MenuItem) => number,
+  moreWidth: number,
+  budgets: number[],
+  split: (items: MenuItem[]) => MenuItem[][]
+): MenuItem[] => {
+  const fits = (visibleItems: MenuItem[], withMore: boolean) =>
+    split(visibleItems).every((slotItems, index, slots) => {
+      const width =
+        slotItems.reduce((sum, item) => sum + getWidth(item), 0) +
+        (withMore && index === slots.length - 1 ? moreWidth : 0);
+      return width <= (budgets[index] ?? 0);
+    });
+
+  if (fits(items, false)) return items;
+
+  // Stable ranking: higher priority first, then display order
+  const ranked = items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => (b.item.priority ?? 0) - (a.item.priority ?? 0) || a.index - b.index);
+
+  const kept = new Set<MenuItem>();
+  for (const { item } of ranked) {
+    kept.add(item);
+    const candidates = items.filter((candidate) => kept.has(candidate));
+    if (!fits(candidates, true)) {
+      kept.delete(item); // Lower-priority items never jump ahead of one that doesn't fit
+      break;
+    }
+  }
+  return items.filter((item) => kept.has(item));
+};
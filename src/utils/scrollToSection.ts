@@ -0,0 +1,93 @@
+import type React from "react";
+import { parseSectionHref } from "./menuItems";
+
+/**
+ * Options for scrolling a section into view.
+ * @internal
+ */
+export interface ScrollToSectionOptions {
+  /** Space (px) to leave above the section, e.g. the height of the fixed bar. */
+  offset?: number;
+  /** Jump instead of smooth scrolling (reduced motion). */
+  instant?: boolean;
+  /** The scroll container, or `null` for the window. */
+  root?: Element | null;
+}
+
+/**
+ * Reads the section ID (without '#') from `location.hash`, or `null` without a hash.
+ * @internal
+ */
+export const readHashId = (): string | null => {
+  const hash = window.location.hash.slice(1);
+  if (!hash) return null;
+  try {
+    return decodeURIComponent(hash);
+  } catch {
+    return hash; // Malformed escapes: use the raw hash
+  }
+};
+
+/**
+ * Scrolls the root (or the window) so the element's top lands `offset` px below the root's top.
+ * @internal
+ */
+export const scrollToElement = (
+  element: HTMLElement,
+  { offset = 0, instant = false, root = null }: ScrollToSectionOptions = {}
+): void => {
+  const rootTop = root ? root.getBoundingClientRect().top : 0;
+  const scrollTop = root ? root.scrollTop : window.scrollY;
+  const top = element.getBoundingClientRect().top - rootTop + scrollTop - offset;
+  (root ?? window).scrollTo({ top: Math.max(0, top), behavior: instant ? "auto" : "smooth" });
+};
+
+/**
+ * Scrolls to a section on the current page, moves focus to it for keyboard and screen reader
+ * users, and reflects it in the URL hash without the browser's jump.
+ * Falls back to setting `location.hash` when no element has the ID.
+ * @internal
+ */
+export const navigateToSection = (id: string, options?: ScrollToSectionOptions): void => {
+  const element = document.getElementById(id);
+  if (!element) {
+    window.location.hash = id;
+    return;
+  }
+
+  scrollToElement(element, options);
+
+  // Sections are rarely focusable, so make this one programmatically focusable
+  if (element.tabIndex < 0 && !element.hasAttribute("tabindex")) {
+    element.setAttribute("tabindex", "-1");
+  }
+  element.focus({ preventScroll: true }); // The smooth scroll is already underway
+
+  // pushState changes the hash without scrolling, and keeps back / forward working like a link
+  if (readHashId() !== id) {
+    window.history.pushState(window.history.state, "", `#${encodeURIComponent(id)}`);
+  }
+};
+
+/**
+ * Returns the section a link click should scroll to in place, or `null` to let the link
+ * navigate: links to other pages, clicks opening a new tab or window, and handled events.
+ * @internal
+ */
+export const getClickedSectionId = (
+  event: React.MouseEvent<HTMLAnchorElement>,
+  href: string | undefined
+): string | null => {
+  if (
+    event.defaultPrevented ||
+    event.button !== 0 ||
+    event.metaKey ||
+    event.ctrlKey ||
+    event.shiftKey ||
+    event.altKey
+  ) {
+    return null;
+  }
+  const target = parseSectionHref(href);
+  return target && target.pathname === null ? target.id : null; // Bare '#id' links only
+};
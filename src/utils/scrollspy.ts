@@ -0,0 +1,112 @@
+/**
+ * Geometry and intersection state of a section tracked by `useScrollspy`.
+ */
+export interface ScrollspySection {
+  /** The section's element ID. */
+  id: string;
+  /** The section element. */
+  element: HTMLElement;
+  /** Whether the section is inside the activation band (the root shrunk by `rootMargin`). */
+  isIntersecting: boolean;
+  /** Share (0–1) of the section's height currently visible within the root. */
+  visibleRatio: number;
+  /** Distance (px) from the top of the root to the top of the section (negative once passed). */
+  top: number;
+  /** Distance (px) from the top of the root to the bottom of the section. */
+  bottom: number;
+  /** Height (px) of the section. */
+  height: number;
+}
+
+/**
+ * Picks the active section ID from every tracked section (in `itemIds` order), or returns
+ * `null` when none should be active.
+ * @param sections - The tracked sections that currently have an element.
+ * @param rootHeight - Height (px) of the root (the viewport, or the scroll container).
+ */
+export type ScrollspyResolver = (sections: ScrollspySection[], rootHeight: number) => string | null;
+
+/**
+ * How `useScrollspy` picks the active section.
+ * - `"topmost"`: the highest section inside the activation band.
+ * - `"most-visible"`: the section with the largest visible share of its height.
+ * - `"closest-to-center"`: the section covering, or nearest to, the middle of the root.
+ * - `"last-passed"`: the last section whose top has scrolled past the `offset` line.
+ * - A custom {@link ScrollspyResolver}.
+ */
+export type ScrollspyStrategy =
+  | "topmost"
+  | "most-visible"
+  | "closest-to-center"
+  | "last-passed"
+  | ScrollspyResolver;
+
+/** Tolerance (px) for sections landing just short of the offset line, e.g. after smooth scrolling. */
+const OFFSET_LINE_TOLERANCE = 1;
+
+/**
+ * Computes the share of a section's height visible within a root of the given height.
+ * @internal
+ */
+export const getVisibleRatio = (top: number, bottom: number, rootHeight: number): number => {
+  const height = bottom - top;
+  if (height <= 0) return 0;
+  const visibleHeight = Math.min(bottom, rootHeight) - Math.max(top, 0);
+  return Math.max(0, Math.min(1, visibleHeight / height));
+};
+
+/** Returns the first section maximizing `score`, or `null` for an empty list. */
+const pickBest = (
+  sections: ScrollspySection[],
+  score: (section: ScrollspySection) => number
+): string | null =>
+  sections.reduce<{ id: string | null; score: number }>(
+    (best, section) => {
+      const sectionScore = score(section);
+      return sectionScore > best.score ? { id: section.id, score: sectionScore } : best;
+    },
+    { id: null, score: -Infinity }
+  ).id;
+
+/**
+ * Resolves a built-in strategy name (or passes a custom resolver through).
+ * @param strategy - The strategy to resolve.
+ * @param offset - Offset line (px from the top of the root) used by `"last-passed"`.
+ * @internal
+ */
+export const getScrollspyResolver = (
+  strategy: ScrollspyStrategy,
+  offset: number
+): ScrollspyResolver => {
+  if (typeof strategy === "function") return strategy;
+
+  switch (strategy) {
+    case "most-visible":
+      return (sections) =>
+        pickBest(
+          sections.filter((section) => section.visibleRatio > 0),
+          (section) => section.visibleRatio
+        );
+    case "closest-to-center":
+      return (sections, rootHeight) => {
+        const center = rootHeight / 2;
+        return pickBest(
+          sections.filter((section) => section.visibleRatio > 0),
+          // Zero distance when the section spans the center line
+          (section) => -Math.max(section.top - center, center - section.bottom, 0)
+        );
+      };
+    case "last-passed":
+      return (sections) => {
+        const passed = sections.filter((section) => section.top <= offset + OFFSET_LINE_TOLERANCE);
+        return pickBest(passed, (section) => section.top);
+      };
+    case "topmost":
+    default:
+      return (sections) =>
+        pickBest(
+          sections.filter((section) => section.isIntersecting),
+          (section) => -section.top
+        );
+  }
+};
@@ -0,0 +1,368 @@
+import type { ScrollspyOptions } from "../hooks/useScrollspy";
+import {
+  getScrollspyResolver,
+  getVisibleRatio,
+  type ScrollspySection,
+  type ScrollspyStrategy,
+} from "./scrollspy";
+
+const DEFAULT_ROOT_MARGIN = "-20% 0px -80% 0px"; // Activates when section is roughly in the middle 60%
+const DEFAULT_THRESHOLD = 0;
+/** Distance (px) from the end of the scrollable area that counts as "at the bottom". */
+const BOTTOM_TOLERANCE = 2;
+/** Delay (ms) before warning, in development, about IDs that still have no element. */
+const MISSING_TARGET_WARNING_DELAY = 3000;
+
+/** Current scroll position (px) of the root, or of the window. */
+const getScrollTop = (root: Element | null): number => (root ? root.scrollTop : window.scrollY);
+
+/** Whether the root (or the window) is scrollable and scrolled to its end. */
+const isScrolledToBottom = (root: Element | null): boolean => {
+  const scrollElement = root ?? document.documentElement;
+  const scrollTop = getScrollTop(root);
+  const clientHeight = root ? root.clientHeight : window.innerHeight;
+  return (
+    scrollElement.scrollHeight > clientHeight && // Short pages never count as scrolled
+    scrollTop > 0 &&
+    scrollTop + clientHeight >= scrollElement.scrollHeight - BOTTOM_TOLERANCE
+  );
+};
+
+/**
+ * What the scrollspy tracker reports each time it re-resolves the active section.
+ * @internal
+ */
+export interface ScrollspySnapshot {
+  /** The active section ID, or `null` if none is active. */
+  activeId: string | null;
+  /** The tracked sections that currently have an element, in `itemIds` order. */
+  sections: ScrollspySection[];
+  /** Height (px) of the root (the viewport, or the scroll container). */
+  rootHeight: number;
+  /** Scroll position (px) of the root, used to derive the scroll direction. */
+  scrollTop: number;
+}
+
+/**
+ * Scrollspy options with their defaults applied, minus the root and strategy.
+ * @internal
+ */
+export type ResolvedScrollspyOptions = Required<Omit<ScrollspyOptions, "root" | "strategy">>;
+
+/**
+ * Applies the defaults to the serializable scrollspy options.
+ * @internal
+ */
+export const resolveScrollspyOptions = (
+  options: Omit<ScrollspyOptions, "root" | "strategy">
+): ResolvedScrollspyOptions => ({
+  rootMargin: options.rootMargin ?? DEFAULT_ROOT_MARGIN,
+  threshold: options.threshold ?? DEFAULT_THRESHOLD,
+  clearWhenNoneIntersecting: options.clearWhenNoneIntersecting ?? false,
+  activateLastAtBottom: options.activateLastAtBottom ?? true,
+  offset: options.offset ?? 0,
+});
+
+/**
+ * One IntersectionObserver over a root, shared by every scrollspy consumer of that root and
+ * observer options: each element is observed once, however many consumers track its ID.
+ * @internal
+ */
+export interface SectionObserver {
+  /** The scroll container, or `null` for the viewport. */
+  root: Element | null;
+  /**
+   * Observes the elements with the given IDs as they mount and unmount, and calls `onChange`
+   * on every intersection change, target change and scroll frame.
+   * @returns A function releasing the IDs and the listener.
+   */
+  watch: (itemIds: string[], onChange: () => void) => () => void;
+  /** Returns the observed element with the given ID, if it is mounted. */
+  getElement: (id: string) => HTMLElement | undefined;
+  /** Whether the section with the given ID is inside the activation band. */
+  isIntersecting: (id: string) => boolean;
+  /** Stops observing and drops every listener. */
+  disconnect: () => void;
+}
+
+/**
+ * Creates a {@link SectionObserver} over `root` with the given observer options.
+ * @internal
+ */
+export function createSectionObserver(
+  root: Element | null,
+  { rootMargin, threshold }: Pick<ResolvedScrollspyOptions, "rootMargin" | "threshold">
+): SectionObserver {
+  // Using a Map to store the elements allows easy addition/removal as they mount and unmount
+  const observedElements = new Map<string, HTMLElement>();
+  const intersectingIds = new Set<string>(); // IDs currently inside the activation band
+  const idCounts = new Map<string, number>(); // How many consumers track each ID
+  const listeners = new Set<() => void>();
+  let frame = 0;
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  /**
+   * IntersectionObserver callback.
+   * @param entries - Array of IntersectionObserverEntry objects.
+   */
+  const observerCallback: IntersectionObserverCallback = (entries) => {
+    entries.forEach((entry) => {
+      const { id } = entry.target;
+      // Ignore late entries for elements replaced since they were queued
+      if (observedElements.get(id) !== entry.target) return;
+      if (entry.isIntersecting) {
+        intersectingIds.add(id);
+      } else {
+        intersectingIds.delete(id);
+      }
+    });
+    notify();
+  };
+
+  let observer: IntersectionObserver | null = null;
+  try {
+    observer = new IntersectionObserver(observerCallback, { root, rootMargin, threshold });
+  } catch (e) {
+    // Without an observer no target is ever tracked, so consumers report empty snapshots
+    console.error("[useScrollspy] Failed to create or use IntersectionObserver:", e);
+  }
+
+  /** Stops observing the element with the given ID. */
+  const dropTarget = (id: string) => {
+    const element = observedElements.get(id);
+    if (element) observer?.unobserve(element);
+    observedElements.delete(id);
+    intersectingIds.delete(id);
+  };
+
+  /**
+   * Observes newly mounted targets and drops removed or replaced ones.
+   * @returns Whether any target changed.
+   */
+  const syncTargets = (ids: string[]): boolean => {
+    const intersectionObserver = observer;
+    if (!intersectionObserver) return false;
+    let changed = false;
+    ids.forEach((id) => {
+      const element = document.getElementById(id);
+      if (element === observedElements.get(id)) return;
+      changed = true;
+      dropTarget(id);
+      if (element) {
+        observedElements.set(id, element);
+        intersectionObserver.observe(element);
+      }
+    });
+    return changed;
+  };
+
+  // Watch the DOM for targets mounting or unmounting later, batching bursts of mutations per frame
+  const mutationObserver = new MutationObserver(() => {
+    cancelAnimationFrame(frame);
+    frame = requestAnimationFrame(() => {
+      if (syncTargets(Array.from(idCounts.keys()))) notify();
+    });
+  });
+  mutationObserver.observe(root ?? document.body, { childList: true, subtree: true });
+
+  // The observer only reports band crossings: reaching the bottom and the geometry used by
+  // the strategies change in between, so notify once per frame while scrolling
+  const scrollTarget: Element | Window = root ?? window;
+  let scrollFrame = 0;
+  const handleScroll = () => {
+    cancelAnimationFrame(scrollFrame);
+    scrollFrame = requestAnimationFrame(notify);
+  };
+  scrollTarget.addEventListener("scroll", handleScroll, { passive: true });
+
+  return {
+    root,
+    watch: (itemIds, onChange) => {
+      const ids = Array.from(new Set(itemIds)); // Count each ID once per consumer
+      ids.forEach((id) => idCounts.set(id, (idCounts.get(id) ?? 0) + 1));
+      if (syncTargets(ids)) notify(); // Existing consumers may share a replaced target
+      listeners.add(onChange);
+
+      return () => {
+        listeners.delete(onChange);
+        ids.forEach((id) => {
+          const count = (idCounts.get(id) ?? 1) - 1;
+          if (count > 0) {
+            idCounts.set(id, count);
+          } else {
+            idCounts.delete(id);
+            dropTarget(id); // No consumer tracks it anymore
+          }
+        });
+      };
+    },
+    getElement: (id) => observedElements.get(id),
+    isIntersecting: (id) => intersectingIds.has(id),
+    // Disconnect the observers once the last consumer is gone
+    disconnect: () => {
+      observer?.disconnect();
+      mutationObserver.disconnect();
+      scrollTarget.removeEventListener("scroll", handleScroll);
+      cancelAnimationFrame(frame);
+      cancelAnimationFrame(scrollFrame);
+      listeners.clear();
+    },
+  };
+}
+
+/**
+ * What the tracker needs to follow a set of sections.
+ * @internal
+ */
+export interface ScrollspyTrackerConfig {
+  /** Element IDs (without '#') to track. */
+  itemIds: string[];
+  options: ResolvedScrollspyOptions;
+  /** The scroll container, or `null` for the viewport. */
+  root: Element | null;
+  /** Returns the strategy to resolve the active section with, read on every update. */
+  getStrategy: () => ScrollspyStrategy;
+  /** Active ID to start from, kept until a new one is resolved. */
+  initialActiveId?: string | null;
+  /** Called with a new snapshot on every change and scroll frame. */
+  onUpdate: (snapshot: ScrollspySnapshot) => void;
+}
+
+/**
+ * The active ID kept between updates (until a new one is resolved), shared by every consumer
+ * resolving the same sections with the same options and strategy.
+ * @internal
+ */
+export interface ActiveIdCell {
+  current: string | null;
+}
+
+/**
+ * Resolves one consumer's active section from a (possibly shared) section observer and
+ * reports a snapshot on every change and scroll frame.
+ *
+ * @param sectionObserver - The observer tracking the sections' elements and intersections.
+ * @param config - The consumer's sections, options and strategy; its `root` is the observer's.
+ * @param activeIdCell - Where the kept active ID lives; pass a shared cell so consumers agree
+ *                       on it. Defaults to a cell of its own, starting from `initialActiveId`.
+ * @returns A function stopping the tracking. The observer itself keeps running.
+ * @internal
+ */
+export function followScrollspy(
+  sectionObserver: SectionObserver,
+  {
+    itemIds,
+    options,
+    getStrategy,
+    initialActiveId = null,
+    onUpdate,
+  }: Omit<ScrollspyTrackerConfig, "root">,
+  activeIdCell: ActiveIdCell = { current: initialActiveId }
+): () => void {
+  const { root: rootElement } = sectionObserver;
+  const { clearWhenNoneIntersecting, activateLastAtBottom, offset } = options;
+
+  /** Measures every tracked section (in `itemIds` order) relative to the root. */
+  const getSections = (): { sections: ScrollspySection[]; rootHeight: number } => {
+    const rootTop = rootElement ? rootElement.getBoundingClientRect().top : 0;
+    const rootHeight = rootElement ? rootElement.clientHeight : window.innerHeight;
+    const sections = itemIds.flatMap((id) => {
+      const element = sectionObserver.getElement(id);
+      if (!element) return [];
+      const rect = element.getBoundingClientRect();
+      const top = rect.top - rootTop;
+      const bottom = rect.bottom - rootTop;
+      return [
+        {
+          id,
+          element,
+          isIntersecting: sectionObserver.isIntersecting(id),
+          visibleRatio: getVisibleRatio(top, bottom, rootHeight),
+          top,
+          bottom,
+          height: rect.height,
+        },
+      ];
+    });
+    return { sections, rootHeight };
+  };
+
+  /** Reports an empty snapshot, e.g. while no targets are tracked. */
+  const reset = () => {
+    activeIdCell.current = null;
+    onUpdate({
+      activeId: null,
+      sections: [],
+      rootHeight: rootElement ? rootElement.clientHeight : window.innerHeight,
+      scrollTop: getScrollTop(rootElement),
+    });
+  };
+
+  /** Derives the active ID from the tracked sections and the scroll position, then reports. */
+  const updateActiveId = () => {
+    const { sections, rootHeight } = getSections();
+    const lastId = [...itemIds].reverse().find((id) => sectionObserver.getElement(id));
+
+    if (activateLastAtBottom && lastId && isScrolledToBottom(rootElement)) {
+      activeIdCell.current = lastId;
+    } else {
+      const resolvedId = getScrollspyResolver(getStrategy(), offset)(sections, rootHeight);
+      if (resolvedId !== null) {
+        activeIdCell.current = resolvedId;
+      } else if (clearWhenNoneIntersecting) {
+        activeIdCell.current = null;
+      }
+      // Otherwise the last active ID is kept until a new one is resolved
+    }
+
+    onUpdate({
+      activeId: activeIdCell.current,
+      sections,
+      rootHeight,
+      scrollTop: getScrollTop(rootElement),
+    });
+  };
+
+  if (itemIds.length === 0) {
+    reset(); // Reset if itemIds is empty
+    return () => {};
+  }
+
+  const unwatch = sectionObserver.watch(itemIds, updateActiveId);
+  if (itemIds.some((id) => sectionObserver.getElement(id))) {
+    updateActiveId();
+  } else {
+    reset(); // Reset until targets mount
+  }
+
+  // In development, point out IDs that still have no element after a while
+  const warningTimer = setTimeout(() => {
+    if (process.env.NODE_ENV === "production") return;
+    const missingIds = itemIds.filter((id) => !sectionObserver.getElement(id));
+    if (missingIds.length > 0) {
+      console.warn(`[useScrollspy] No elements found with IDs: ${missingIds.join(", ")}`);
+    }
+  }, MISSING_TARGET_WARNING_DELAY);
+
+  return () => {
+    unwatch();
+    clearTimeout(warningTimer);
+  };
+}
+
+/**
+ * Tracks a set of sections with an observer of its own, for consumers outside a
+ * `ScrollspyProvider`.
+ *
+ * @returns A function stopping the tracking.
+ * @internal
+ */
+export function trackScrollspy({ root, ...config }: ScrollspyTrackerConfig): () => void {
+  const sectionObserver = createSectionObserver(root, config.options);
+  const stop = followScrollspy(sectionObserver, config);
+  return () => {
+    stop();
+    sectionObserver.disconnect();
+  };
+}
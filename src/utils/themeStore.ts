@@ -0,0 +1,198 @@
+import type { ResolvedTheme, ThemeAdapter, ThemePreference } from "../components/ThemeProvider";
+
+const DARK_SCHEME_QUERY = "(prefers-color-scheme: dark)";
+
+/**
+ * Options for the built-in theme store.
+ * @internal
+ */
+export interface ThemeStoreOptions {
+  /** localStorage key used to persist the preference. */
+  storageKey: string;
+  /** Preference used when nothing is stored. */
+  defaultTheme: ThemePreference;
+  /** Whether `"system"` follows `prefers-color-scheme`; when false it resolves to light. */
+  enableSystem: boolean;
+  /** `"class"` toggles `light`/`dark` classes on `<html>`; any other value is used as an attribute name. */
+  attribute: string;
+}
+
+const isThemePreference = (value: unknown): value is ThemePreference =>
+  value === "light" || value === "dark" || value === "system";
+
+/** Reads the stored preference, tolerating unavailable storage (private mode, sandboxed iframes). */
+const readStoredTheme = (storageKey: string): ThemePreference | null => {
+  try {
+    const stored = window.localStorage.getItem(storageKey);
+    return isThemePreference(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Creates the theme adapter behind the built-in `ThemeProvider`: persists the preference in
+ * localStorage, follows `prefers-color-scheme` for `"system"`, syncs across tabs and applies
+ * the resolved theme to the `<html>` element.
+ *
+ * @param options - Store configuration.
+ * @returns A `ThemeAdapter` plus `apply`, which writes the current theme to the document.
+ * @internal
+ */
+export const createThemeStore = ({
+  storageKey,
+  defaultTheme,
+  enableSystem,
+  attribute,
+}: ThemeStoreOptions): ThemeAdapter & { apply: () => void } => {
+  const isClient = typeof window !== "undefined";
+  const listeners = new Set<() => void>();
+  const mediaQuery = isClient && window.matchMedia ? window.matchMedia(DARK_SCHEME_QUERY) : null;
+
+  let theme: ThemePreference = (isClient && readStoredTheme(storageKey)) || defaultTheme;
+  let systemTheme: ResolvedTheme = mediaQuery?.matches ? "dark" : "light";
+
+  const getResolvedTheme = (): ResolvedTheme =>
+    theme === "system" ? (enableSystem ? systemTheme : "light") : theme;
+
+  const apply = () => {
+    if (typeof document === "undefined") return;
+    const root = document.documentElement;
+    const resolved = getResolvedTheme();
+    if (attribute === "class") {
+      root.classList.remove("light", "dark");
+      root.classList.add(resolved);
+    } else {
+      root.setAttribute(attribute, resolved);
+    }
+    root.style.colorScheme = resolved;
+  };
+
+  const notify = () => {
+    apply();
+    listeners.forEach((listener) => listener());
+  };
+
+  const handleSystemChange = (event: MediaQueryListEvent) => {
+    systemTheme = event.matches ? "dark" : "light";
+    if (theme === "system") notify();
+  };
+
+  const handleStorage = (event: StorageEvent) => {
+    // Keep multiple tabs in sync
+    if (event.key !== storageKey) return;
+    theme = isThemePreference(event.newValue) ? event.newValue : defaultTheme;
+    notify();
+  };
+
+  return {
+    getTheme: () => theme,
+    getResolvedTheme,
+    setTheme: (nextTheme) => {
+      theme = nextTheme;
+      try {
+        window.localStorage.setItem(storageKey, nextTheme);
+      } catch {
+        // Storage unavailable: the preference lasts for this page only
+      }
+      notify();
+    },
+    subscribe: (listener) => {
+      if (listeners.size === 0 && isClient) {
+        mediaQuery?.addEventListener("change", handleSystemChange);
+        window.addEventListener("storage", handleStorage);
+      }
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && isClient) {
+          mediaQuery?.removeEventListener("change", handleSystemChange);
+          window.removeEventListener("storage", handleStorage);
+        }
+      };
+    },
+    apply,
+  };
+};
+
+let hasWarnedAboutMissingThemeAdapter = false;
+
+/**
+ * Warns once per page, in development, that the theme can't be changed for lack of a provider.
+ * @internal
+ */
+export const warnMissingThemeAdapter = (): void => {
+  if (process.env.NODE_ENV === "production" || hasWarnedAboutMissingThemeAdapter) return;
+  hasWarnedAboutMissingThemeAdapter = true;
+  console.warn(
+    "[ThemeAdapter] No theme provider is mounted, so the theme can't be changed and DarkModeToggle renders nothing. Wrap the app in `ThemeProvider`, `NextThemesAdapter` (next-themes) or `ThemeAdapterProvider`."
+  );
+};
+
+/** Reads the theme applied to `<html>` as a `light`/`dark` class or `data-theme` attribute. */
+const readDocumentTheme = (): ResolvedTheme | null => {
+  const root = document.documentElement;
+  const attributeTheme = root.getAttribute("data-theme");
+  if (root.classList.contains("dark") || attributeTheme === "dark") return "dark";
+  if (root.classList.contains("light") || attributeTheme === "light") return "light";
+  return null;
+};
+
+/**
+ * Creates the read-only adapter used when no provider is mounted. It follows the theme another
+ * library (such as next-themes) or the app applies to `<html>`, falling back to the stored
+ * preference and `prefers-color-scheme`, but never writes the document or localStorage: only an
+ * explicit `ThemeProvider` (or another adapter) owns the theme.
+ *
+ * @param storageKey - localStorage key the preference is read from.
+ * @returns A `ThemeAdapter` whose `setTheme` only warns, in development.
+ * @internal
+ */
+export const createThemeReader = (storageKey: string): ThemeAdapter => {
+  const isClient = typeof window !== "undefined";
+  const listeners = new Set<() => void>();
+  const mediaQuery = isClient && window.matchMedia ? window.matchMedia(DARK_SCHEME_QUERY) : null;
+  let mutationObserver: MutationObserver | null = null;
+
+  const getTheme = (): ThemePreference => (isClient && readStoredTheme(storageKey)) || "system";
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === storageKey) notify();
+  };
+
+  return {
+    getTheme,
+    getResolvedTheme: () => {
+      const documentTheme = isClient ? readDocumentTheme() : null;
+      if (documentTheme) return documentTheme;
+      const theme = getTheme();
+      if (theme !== "system") return theme;
+      return mediaQuery?.matches ? "dark" : "light";
+    },
+    setTheme: warnMissingThemeAdapter,
+    subscribe: (listener) => {
+      if (listeners.size === 0 && isClient) {
+        mediaQuery?.addEventListener("change", notify);
+        window.addEventListener("storage", handleStorage);
+        // Follow whoever applies the theme to the document
+        mutationObserver = new MutationObserver(notify);
+        mutationObserver.observe(document.documentElement, {
+          attributes: true,
+          attributeFilter: ["class", "data-theme"],
+        });
+      }
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && isClient) {
+          mediaQuery?.removeEventListener("change", notify);
+          window.removeEventListener("storage", handleStorage);
+          mutationObserver?.disconnect();
+          mutationObserver = null;
+        }
+      };
+    },
+  };
+};
@@ -1,10 +1,11 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/index.ts"], // Library entry point
+  entry: ["src/index.ts", "src/next.tsx", "src/next-themes.tsx"], // Library entry point + adapter entries
   format: ["cjs", "esm"], // Output both CommonJS and ES modules
   dts: true, // Generate declaration files (.d.ts)
-  splitting: false, // Keep code in one file per format (simpler for this size)
+  // Shared chunks, so the adapter entries use the same context modules as the main entry
+  splitting: true,
   sourcemap: true, // Generate sourcemaps
   clean: true, // Clean output directory before build
   // External specifies dependencies that should not be bundled,